@@ -1,5 +1,9 @@
 #!/usr/bin/env node
 import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import readline from 'node:readline'
+import crypto from 'node:crypto'
 import { Readable, Writable } from 'node:stream'
 import { fetch, Agent } from 'undici'
 import sade from 'sade'
@@ -15,6 +19,16 @@ const pkg = JSON.parse(fs.readFileSync(new URL('./package.json', import.meta.url
 const cli = sade('sha256it')
 const concurrency = 50
 const dispatcher = new Agent({ headersTimeout: 900e3 })
+/** Endpoint that runs the hash and copy handlers in-process, in `--local` mode. */
+const localEndpoint = new URL('local:')
+/** Signs requests to the in-process handlers. */
+const localSigningKey = crypto.randomBytes(32).toString('hex')
+/** @type {Map<string, Promise<any>>} */
+const localHandlers = new Map()
+/** Milliseconds between requests for the status of a copy job. */
+const jobPollInterval = 10e3
+/** Default minutes to wait for a copy job to finish, enough for several attempts. */
+const defaultJobTimeout = 120
 
 dotenv.config({ path: './.env.local' })
 
@@ -30,6 +44,7 @@ cli
   .option('-b, --bucket', 'Bucket name.')
   .option('-p, --prefix', 'Key prefix.')
   .option('-s, --start-after', 'Start listing after this key.')
+  .option('--kind', 'Kind of objects to list: car, blob (any key not ending .car) or all.', 'car')
   .action(async (/** @type {Record<string, string|undefined>} */ options) => {
     const accessKeyId = notNully(process.env, 'AWS_ACCESS_KEY_ID', 'missing environment variable')
     const secretAccessKey = notNully(process.env, 'AWS_SECRET_ACCESS_KEY', 'missing environment variable')
@@ -38,53 +53,150 @@ cli
     const bucket = notNully(options, 'bucket', 'missing required option')
     const prefix = options.prefix ?? ''
     const startAfter = options['start-after']
+    const kind = options.kind ?? 'car'
+    if (kind !== 'all') parseKind(kind)
     const s3 = new S3Client({ region, endpoint, credentials: { accessKeyId, secretAccessKey } })
 
-    /** @type {string|undefined} */
-    let token
-    await new ReadableStream({
-      async pull (controller) {
-        const cmd = new ListObjectsV2Command({ Bucket: bucket, Prefix: prefix, StartAfter: startAfter, MaxKeys: 1000, ContinuationToken: token })
-        const res = await s3.send(cmd)
-        for (const obj of res.Contents ?? []) {
-          if (!obj.Key || !obj.Key.endsWith('.car')) continue
-          controller.enqueue(`${JSON.stringify({ region, bucket, key: obj.Key })}\n`)
-        }
-        if (!res.IsTruncated) {
-          return controller.close()
+    await iteratorStream(listKeys(s3, bucket, prefix, startAfter))
+      .pipeThrough(new TransformStream({
+        transform: (key, controller) => {
+          const keyKind = keyToKind(key)
+          if (kind !== 'all' && kind !== keyKind) return
+          // blobs are marked, so hash and copy handle them as blobs
+          controller.enqueue(`${JSON.stringify({ region, bucket, key, ...(keyKind === 'blob' ? { kind: keyKind } : {}) })}\n`)
         }
-        token = res.NextContinuationToken
-      }
-    }).pipeTo(Writable.toWeb(process.stdout))
+      }))
+      .pipeTo(Writable.toWeb(process.stdout))
+  })
+
+/**
+ * Create a stream that pulls from an async iterator.
+ *
+ * @template T
+ * @param {AsyncIterable<T>} iterable
+ * @returns {ReadableStream<T>}
+ */
+const iteratorStream = iterable => {
+  const iterator = iterable[Symbol.asyncIterator]()
+  return new ReadableStream({
+    async pull (controller) {
+      const { done, value } = await iterator.next()
+      if (done) return controller.close()
+      controller.enqueue(value)
+    }
   })
+}
+
+/**
+ * List the keys in a bucket, in order.
+ *
+ * @param {S3Client} s3
+ * @param {string} bucket
+ * @param {string} prefix
+ * @param {string|undefined} startAfter
+ */
+async function * listKeys (s3, bucket, prefix, startAfter) {
+  /** @type {string|undefined} */
+  let token
+  while (true) {
+    const cmd = new ListObjectsV2Command({ Bucket: bucket, Prefix: prefix, StartAfter: startAfter, MaxKeys: 1000, ContinuationToken: token })
+    const res = await s3.send(cmd)
+    for (const obj of res.Contents ?? []) {
+      if (obj.Key) yield obj.Key
+    }
+    if (!res.IsTruncated) return
+    token = res.NextContinuationToken
+  }
+}
+
+/**
+ * List the keys of the artifacts in a destination bucket, in order, skipping
+ * the multipart upload checkpoints of the copy lambda.
+ *
+ * @param {S3Client} s3
+ * @param {string} bucket
+ * @param {string} checkpointPrefix
+ */
+async function * listArtifactKeys (s3, bucket, checkpointPrefix) {
+  for await (const key of listKeys(s3, bucket, '', undefined)) {
+    if (!key.startsWith(checkpointPrefix)) yield key
+  }
+}
+
+/**
+ * List the keys of the CARs in a bucket, in order.
+ *
+ * @param {S3Client} s3
+ * @param {string} bucket
+ * @param {string} prefix
+ * @param {string|undefined} startAfter
+ */
+async function * listCARKeys (s3, bucket, prefix, startAfter) {
+  for await (const key of listKeys(s3, bucket, prefix, startAfter)) {
+    if (keyToKind(key) === 'car') yield key
+  }
+}
+
+/**
+ * Kind of a source object: a CAR shard, or a blob of any other bytes.
+ *
+ * @typedef {'car'|'blob'} Kind
+ */
+
+/**
+ * @param {string} key
+ * @returns {Kind}
+ */
+const keyToKind = key => key.endsWith('.car') ? 'car' : 'blob'
+
+/**
+ * @param {string|undefined} kind
+ * @returns {Kind}
+ */
+const parseKind = kind => {
+  if (kind == null || kind === 'car' || kind === 'blob') return kind ?? 'car'
+  throw new Error(`invalid kind: ${kind}`)
+}
 
 cli
   .command('hash [key]')
+  .option('--validate', 'Also parse the CAR and verify every block against its CID.', false)
+  .option('--piece', 'Also compute the Filecoin piece CID. Much slower than hashing alone.', false)
   .option('-e, --endpoint', 'Service endpoint.')
+  .option('--local', 'Hash in-process instead of calling the hash lambda.', false)
+  .option('--source', 'With --local, read source objects from <dir>/<bucket> or <url>/<bucket> instead of S3.')
+  .option('--timing', 'Include the milliseconds taken by the lambda and the request in the output.', false)
+  .option('--kind', 'Hash objects as a car or a blob, unless set on the input item. A blob is identified by a raw CID.', 'car')
   .option('-r, --region', 'Bucket region.')
   .option('-b, --bucket', 'Bucket name.')
   .action(async (/** @type {string|undefined} */ key, /** @type {Record<string, string|undefined>} */ options) => {
-    const endpoint = new URL(options.endpoint ?? notNully(process.env, 'SERVICE_ENDPOINT', 'missing required option'))
+    useLocalSource(options)
+    const endpoint = options.local
+      ? localEndpoint
+      : new URL(options.endpoint ?? notNully(process.env, 'SERVICE_ENDPOINT', 'missing required option'))
+    signingKey(endpoint)
+    const defaultKind = parseKind(options.kind)
     if (key) {
       const region = notNully(options, 'region', 'missing required option')
       const bucket = notNully(options, 'bucket', 'missing required option')
-      const { cid } = await hash(endpoint, region, bucket, key)
-      return console.log(dagJSON.stringify({ region, bucket, key, cid }))
+      const { ok, ...result } = await hash(endpoint, region, bucket, key, { validate: Boolean(options.validate), piece: Boolean(options.piece), timing: Boolean(options.timing), kind: defaultKind })
+      return console.log(dagJSON.stringify({ region, bucket, key, ...kindField(defaultKind), ...result }))
     }
 
     const source = /** @type {ReadableStream<Uint8Array>} */ (Readable.toWeb(process.stdin))
     await source
-      .pipeThrough(/** @type {Parse<{ region?: string, bucket?: string, key: string }>} */ (new Parse()))
+      .pipeThrough(/** @type {Parse<{ region?: string, bucket?: string, key: string, kind?: string }>} */ (new Parse()))
       .pipeThrough(new Parallel(concurrency, async item => {
         const region = item.region ?? notNully(options, 'region', 'missing required option')
         const bucket = item.bucket ?? notNully(options, 'bucket', 'missing required option')
         const { key } = item
+        const kind = item.kind ? parseKind(item.kind) : defaultKind
         try {
-          const { cid } = await retry(() => hash(endpoint, region, bucket, key))
-          return { region, bucket, key, cid }
+          const { ok, ...result } = await retry(() => hash(endpoint, region, bucket, key, { validate: Boolean(options.validate), piece: Boolean(options.piece), timing: Boolean(options.timing), kind }))
+          return { region, bucket, key, ...kindField(kind), ...result }
         } catch (err) {
           console.warn(`failed hash of ${region}/${bucket}/${key}`, err)
-          return { region, bucket, key, error: err.message }
+          return { region, bucket, key, ...kindField(kind), error: err.message }
         }
       }))
       .pipeThrough(new Stringify(dagJSON.stringify))
@@ -96,64 +208,180 @@ cli
  * @param {string} region
  * @param {string} bucket
  * @param {string} key
- * @returns {Promise<{ cid: import('multiformats').Link }>}
+ * @param {{ validate?: boolean, piece?: boolean, timing?: boolean, kind?: Kind }} [options]
+ * @returns {Promise<{ ok: true, cid: import('multiformats').Link, piece?: import('multiformats').UnknownLink, valid?: boolean, roots?: import('multiformats').UnknownLink[], blocks?: number, blockBytes?: number, unverifiedBlocks?: number, invalidOffset?: number, error?: string, timing?: Timing }>}
  */
-const hash = async (endpoint, region, bucket, key) => {
+const hash = async (endpoint, region, bucket, key, options) => {
   const url = new URL(endpoint)
   url.searchParams.set('region', region)
   url.searchParams.set('bucket', bucket)
   url.searchParams.set('key', key)
-  const res = await fetch(url, { dispatcher })
+  if (options?.validate) url.searchParams.set('validate', 'true')
+  if (options?.piece) url.searchParams.set('piece', 'true')
+  if (options?.timing) url.searchParams.set('timing', 'true')
+  if (options?.kind === 'blob') url.searchParams.set('kind', 'blob')
+  const elapsed = startTimer()
+  const res = await invoke(url, 'hash')
   const text = await res.text()
   if (!res.ok) throw new Error(`hash failed: ${text}`)
-  return dagJSON.parse(text)
+  return withTotalTime(dagJSON.parse(text), elapsed, options)
+}
+
+/**
+ * The `kind` field of an output item. Only blobs are marked, so CAR output is
+ * unchanged.
+ *
+ * @param {Kind} kind
+ */
+const kindField = kind => kind === 'blob' ? { kind } : {}
+
+/**
+ * Milliseconds taken by each stage of a request, as reported by the lambda,
+ * and `total` for the whole request, as measured by the CLI.
+ *
+ * @typedef {Record<string, number>} Timing
+ */
+
+const startTimer = () => {
+  const start = performance.now()
+  return () => Math.round(performance.now() - start)
 }
 
+/**
+ * Add the total milliseconds of the request to the timing of its result, if
+ * timing was requested.
+ *
+ * @param {Record<string, any>} result
+ * @param {() => number} elapsed
+ * @param {{ timing?: boolean }} [options]
+ * @returns {any}
+ */
+const withTotalTime = (result, elapsed, options) =>
+  options?.timing ? { ...result, timing: { ...result.timing, total: elapsed() } } : result
+
 cli.command('copy [key] [cid]')
-  .option('--root', 'DAG root CID (if not derivable from key).')
+  .option('--root', 'DAG root CID (read from the CAR header if not set or derivable from key).')
+  .option('--piece', 'Filecoin piece CID, stored as metadata on the CAR.')
+  .option('--cleanup', 'Abort stale multipart uploads at the destination that cannot be resumed.', false)
+  .option('--repair', 'Check the CAR, index and link of shards that already exist, and write any that are missing or invalid.', false)
+  .option('--batch-size', 'Number of items to copy per lambda invocation.', 1)
+  .option('--async', 'Submit copy jobs and poll for their status, instead of waiting for the copy response.', false)
+  .option('--job-timeout', 'Minutes to wait for a copy job to finish in async mode, after which it is reported as failed.', defaultJobTimeout)
   .option('-e, --endpoint', 'Service endpoint.')
+  .option('--local', 'Copy in-process instead of calling the copy lambda. Destination config and credentials are read from env.', false)
+  .option('--source', 'With --local, read source objects from <dir>/<bucket> or <url>/<bucket> instead of S3.')
+  .option('--timing', 'Include the milliseconds taken by each copy stage and the request in the output.', false)
+  .option('--max-shard-size', 'Split CARs larger than this many bytes into several shards under the limit.')
+  .option('--kind', 'Copy objects as a car or a blob, unless set on the input item. Blobs have no index or links.', 'car')
+  .option('--dest', 'Comma separated names of the destinations to copy to (default all).')
+  .option('--index', 'Comma separated formats to write the satnav index in: multihash-index-sorted, index-sorted or sharded-dag-index (default INDEX_FORMATS of the copy lambda).')
   .option('-r, --region', 'Bucket region.')
   .option('-b, --bucket', 'Bucket name.')
   .action(async (/** @type {string|undefined} */ key, /** @type {string|undefined} */ cidstr, /** @type {Record<string, string|undefined>} */ options) => {
-    const endpoint = new URL(options.endpoint ?? notNully(process.env, 'COPY_SERVICE_ENDPOINT', 'missing required option'))
+    if (options.local && options.async) {
+      throw new Error('--async cannot be used with --local')
+    }
+    useLocalSource(options)
+    const endpoint = options.local
+      ? localEndpoint
+      : new URL(options.endpoint ?? notNully(process.env, 'COPY_SERVICE_ENDPOINT', 'missing required option'))
+    signingKey(endpoint)
+    const defaultKind = parseKind(options.kind)
     if (key && cidstr) {
       const region = notNully(options, 'region', 'missing required option')
       const bucket = notNully(options, 'bucket', 'missing required option')
-      const root = options.root ? Link.parse(options.root) : bucketKeyToRootCID(key)
-      if (!root) throw new Error('missing required option: root')
+      // blobs have no DAG root
+      const root = defaultKind === 'blob' ? undefined : options.root ? Link.parse(options.root) : bucketKeyToRootCID(key)
+      const piece = options.piece ? Link.parse(options.piece) : undefined
       const cid = Link.parse(cidstr)
+      const fields = { region, bucket, key, ...kindField(defaultKind), cid, ...(root ? { root } : {}), ...(piece ? { piece } : {}) }
       try {
-        // @ts-expect-error
-        await copy(endpoint, region, bucket, key, cid, root)
-        return console.log(dagJSON.stringify({ region, bucket, key, cid, root }))
+        const copyOptions = { cleanup: Boolean(options.cleanup), repair: Boolean(options.repair), timing: Boolean(options.timing), maxShardSize: options['max-shard-size'], destinations: listOption(options.dest), indexFormats: listOption(options.index), piece, kind: defaultKind, jobTimeout: Number(options['job-timeout']) }
+        const { ok, ...result } = options.async
+          ? await copyAsync(endpoint, region, bucket, key, cid, root, copyOptions)
+          : await copy(endpoint, region, bucket, key, cid, root, copyOptions)
+        return console.log(dagJSON.stringify({ ...fields, ...result }))
       } catch (err) {
         console.warn(`failed copy of ${region}/${bucket}/${key}`, err)
-        return console.log(dagJSON.stringify({ region, bucket, key, cid, root, error: err.message }))
+        return console.log(dagJSON.stringify({ ...fields, error: err.message }))
       }
     }
 
+    const batchSize = options['batch-size'] ? parseInt(options['batch-size']) : 1
+    /** @param {{ region?: string, bucket?: string, key: string, kind?: string, cid: { '/': string }, root?: { '/': string }, piece?: { '/': string } }} item */
+    const toCopyItem = item => {
+      const region = item.region ?? notNully(options, 'region', 'missing required option')
+      const bucket = item.bucket ?? notNully(options, 'bucket', 'missing required option')
+      const { key } = item
+      const kind = item.kind ? parseKind(item.kind) : defaultKind
+      const cid = Link.parse(item.cid['/'])
+      const root = kind === 'blob'
+        ? undefined
+        : item.root
+        ? Link.parse(item.root['/'])
+        : options.root
+        ? Link.parse(options.root)
+        : bucketKeyToRootCID(key)
+      const piece = item.piece ? Link.parse(item.piece['/']) : undefined
+      return { region, bucket, key, ...kindField(kind), cid, ...(root ? { root } : {}), ...(piece ? { piece } : {}) }
+    }
+
     const source = /** @type {ReadableStream<Uint8Array>} */ (Readable.toWeb(process.stdin))
-    await source
-      .pipeThrough(/** @type {Parse<{ region?: string, bucket?: string, key: string, cid: { '/': string }, root?: { '/': string } }|{ error: string }>} */ (new Parse()))
+    const items = source
+      .pipeThrough(/** @type {Parse<{ region?: string, bucket?: string, key: string, kind?: string, cid: { '/': string }, root?: { '/': string }, piece?: { '/': string } }|{ error: string }>} */ (new Parse()))
+
+    if (batchSize > 1 && options.async) {
+      throw new Error('--batch-size cannot be used with --async')
+    }
+    if (batchSize > 1) {
+      /** @type {any[]} */
+      let batch = []
+      return await items
+        .pipeThrough(new TransformStream({
+          transform (item, controller) {
+            if ('error' in item) return controller.enqueue([{ ...item, error: 'missing shard CID' }])
+            batch.push(toCopyItem(item))
+            if (batch.length >= batchSize) {
+              controller.enqueue(batch)
+              batch = []
+            }
+          },
+          flush (controller) {
+            if (batch.length) controller.enqueue(batch)
+          }
+        }))
+        .pipeThrough(new Parallel(concurrency, async items => {
+          if ('error' in items[0]) return items
+          try {
+            return await retry(() => copyBatch(endpoint, items, { cleanup: Boolean(options.cleanup), repair: Boolean(options.repair), timing: Boolean(options.timing), maxShardSize: options['max-shard-size'], destinations: listOption(options.dest), indexFormats: listOption(options.index) }))
+          } catch (err) {
+            console.warn(`failed batch copy of ${items.length} items`, err)
+            return items.map(item => ({ ...item, error: err.message }))
+          }
+        }))
+        .pipeThrough(new TransformStream({
+          transform (results, controller) {
+            for (const result of results) controller.enqueue(result)
+          }
+        }))
+        .pipeThrough(new Stringify(dagJSON.stringify))
+        .pipeTo(Writable.toWeb(process.stdout))
+    }
+
+    await items
       .pipeThrough(new Parallel(concurrency, async item => {
         if ('error' in item) return { ...item, error: 'missing shard CID' }
-        const region = item.region ?? notNully(options, 'region', 'missing required option')
-        const bucket = item.bucket ?? notNully(options, 'bucket', 'missing required option')
-        const { key } = item
-        const cid = Link.parse(item.cid['/'])
-        const root = item.root
-          ? Link.parse(item.root['/'])
-          : options.root
-          ? Link.parse(options.root)
-          : bucketKeyToRootCID(key)
-        if (!root) throw new Error('missing required option: root')
+        const fields = toCopyItem(item)
+        const { region, bucket, key, cid, root, piece } = fields
         try {
-          // @ts-expect-error
-          await retry(() => copy(endpoint, region, bucket, key, cid, root))
-          return { region, bucket, key, cid, root }
+          const copyOptions = { cleanup: Boolean(options.cleanup), repair: Boolean(options.repair), timing: Boolean(options.timing), maxShardSize: options['max-shard-size'], destinations: listOption(options.dest), indexFormats: listOption(options.index), piece, kind: fields.kind, jobTimeout: Number(options['job-timeout']) }
+          const { ok, ...result } = options.async
+            ? await copyAsync(endpoint, region, bucket, key, cid, root, copyOptions)
+            : await retry(() => copy(endpoint, region, bucket, key, cid, root, copyOptions))
+          return { ...fields, ...result }
         } catch (err) {
           console.warn(`failed copy of ${region}/${bucket}/${key}`, err)
-          return { region, bucket, key, cid, root, error: err.message }
+          return { ...fields, error: err.message }
         }
       }))
       .pipeThrough(new Stringify(dagJSON.stringify))
@@ -165,20 +393,172 @@ cli.command('copy [key] [cid]')
  * @param {string} region
  * @param {string} bucket
  * @param {string} key
- * @param {import('multiformats').Link} shard
- * @param {import('multiformats').UnknownLink} root
+ * @param {import('multiformats').UnknownLink} shard
+ * @param {import('multiformats').UnknownLink|undefined} root
+ * @param {{ cleanup?: boolean, repair?: boolean, timing?: boolean, maxShardSize?: string|number, destinations?: string[], indexFormats?: string[], piece?: import('multiformats').UnknownLink, kind?: Kind }} [options]
+ * @returns {Promise<{ ok: true, car?: string, index?: string, link?: string, blob?: string, roots?: import('multiformats').UnknownLink[], shards?: import('multiformats').Link[], destinations?: Record<string, Record<string, any>>, timing?: Timing }>}
+ */
+const copy = async (endpoint, region, bucket, key, shard, root, options) => {
+  const url = copyURL(endpoint, region, bucket, key, shard, root, options)
+  const elapsed = startTimer()
+  const res = await invoke(url, 'copy')
+  const text = await res.text()
+  if (!res.ok) throw new Error(`copy failed: ${text}`)
+  return withTotalTime(dagJSON.parse(text), elapsed, options)
+}
+
+/**
+ * Submit a copy job and poll for its status until it is done or has failed,
+ * for at most `jobTimeout` minutes. Failed jobs resolve with the job error,
+ * rather than throwing, since the copy lambda has already retried them, and so
+ * do jobs that are still unfinished when the wait times out.
+ *
+ * @param {URL} endpoint
+ * @param {string} region
+ * @param {string} bucket
+ * @param {string} key
+ * @param {import('multiformats').UnknownLink} shard
+ * @param {import('multiformats').UnknownLink|undefined} root
+ * @param {{ cleanup?: boolean, repair?: boolean, timing?: boolean, maxShardSize?: string|number, destinations?: string[], indexFormats?: string[], piece?: import('multiformats').UnknownLink, kind?: Kind, jobTimeout?: number }} [options]
+ * @returns {Promise<{ ok: boolean, job: string, car?: string, index?: string, link?: string, blob?: string, roots?: import('multiformats').UnknownLink[], shards?: import('multiformats').Link[], destinations?: Record<string, Record<string, any>>, error?: string, timing?: Timing }>}
+ */
+const copyAsync = async (endpoint, region, bucket, key, shard, root, options) => {
+  const elapsed = startTimer()
+  const job = await retry(async () => {
+    const url = copyURL(endpoint, region, bucket, key, shard, root, options)
+    url.searchParams.set('async', 'true')
+    const res = await invoke(url, 'copy', { method: 'POST', body: '' })
+    const text = await res.text()
+    if (!res.ok) throw new Error(`copy job submit failed: ${text}`)
+    return JSON.parse(text)
+  })
+
+  const deadline = Date.now() + (options?.jobTimeout ?? defaultJobTimeout) * 60e3
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, jobPollInterval))
+    const status = await retry(() => getCopyJob(endpoint, job.id))
+    if (status.status === 'done') {
+      return withTotalTime({ ok: true, job: job.id, ...dagJSON.parse(JSON.stringify(status.result)) }, elapsed, options)
+    }
+    if (status.status === 'failed') {
+      return { ok: false, job: job.id, error: status.error }
+    }
+  }
+  return { ok: false, job: job.id, error: `job did not finish within ${options?.jobTimeout ?? defaultJobTimeout} minutes` }
+}
+
+/**
+ * @param {URL} endpoint
+ * @param {string} id
+ * @returns {Promise<{ id: string, status: 'queued'|'running'|'done'|'failed', bytes: number, result?: Record<string, any>, error?: string }>}
+ */
+const getCopyJob = async (endpoint, id) => {
+  const url = new URL(endpoint)
+  url.searchParams.set('job', id)
+  const res = await invoke(url, 'copy')
+  const text = await res.text()
+  if (!res.ok) throw new Error(`copy job status failed: ${text}`)
+  return JSON.parse(text)
+}
+
+/**
+ * @param {URL} endpoint
+ * @param {string} region
+ * @param {string} bucket
+ * @param {string} key
+ * @param {import('multiformats').UnknownLink} shard
+ * @param {import('multiformats').UnknownLink|undefined} root
+ * @param {{ cleanup?: boolean, repair?: boolean, timing?: boolean, maxShardSize?: string|number, destinations?: string[], indexFormats?: string[], piece?: import('multiformats').UnknownLink, kind?: Kind }} [options]
  */
-const copy = async (endpoint, region, bucket, key, shard, root) => {
+const copyURL = (endpoint, region, bucket, key, shard, root, options) => {
   const url = new URL(endpoint)
   url.searchParams.set('region', region)
   url.searchParams.set('bucket', bucket)
   url.searchParams.set('key', key)
   url.searchParams.set('shard', shard.toString())
-  url.searchParams.set('root', root.toString())
-  const res = await fetch(url, { dispatcher })
+  if (root) url.searchParams.set('root', root.toString())
+  if (options?.cleanup) url.searchParams.set('cleanup', 'true')
+  if (options?.repair) url.searchParams.set('repair', 'true')
+  if (options?.piece) url.searchParams.set('piece', options.piece.toString())
+  if (options?.timing) url.searchParams.set('timing', 'true')
+  if (options?.maxShardSize) url.searchParams.set('maxShardSize', String(options.maxShardSize))
+  if (options?.kind === 'blob') url.searchParams.set('kind', 'blob')
+  for (const dest of options?.destinations ?? []) url.searchParams.append('dest', dest)
+  for (const format of options?.indexFormats ?? []) url.searchParams.append('index', format)
+  return url
+}
+
+/**
+ * Copy a batch of items with a single request to the copy lambda. Timing is
+ * per item, as reported by the lambda, without a request total.
+ *
+ * @param {URL} endpoint
+ * @param {Array<{ region: string, bucket: string, key: string, kind?: Kind, cid: import('multiformats').Link, root?: import('multiformats').UnknownLink, piece?: import('multiformats').UnknownLink }>} items
+ * @param {{ cleanup?: boolean, repair?: boolean, timing?: boolean, maxShardSize?: string|number, destinations?: string[], indexFormats?: string[] }} [options]
+ * @returns {Promise<Array<Record<string, any>>>}
+ */
+const copyBatch = async (endpoint, items, options) => {
+  const url = new URL(endpoint)
+  if (options?.cleanup) url.searchParams.set('cleanup', 'true')
+  if (options?.repair) url.searchParams.set('repair', 'true')
+  if (options?.timing) url.searchParams.set('timing', 'true')
+  if (options?.maxShardSize) url.searchParams.set('maxShardSize', String(options.maxShardSize))
+  for (const dest of options?.destinations ?? []) url.searchParams.append('dest', dest)
+  for (const format of options?.indexFormats ?? []) url.searchParams.append('index', format)
+  const body = items.map(item => dagJSON.stringify(item)).join('\n') + '\n'
+  const res = await invoke(url, 'copy', { method: 'POST', body })
   const text = await res.text()
   if (!res.ok) throw new Error(`copy failed: ${text}`)
-  return dagJSON.parse(text)
+  return text.trim().split('\n').map(line => dagJSON.parse(line))
+}
+
+/**
+ * Send a signed request to the hash, copy or verify lambda. If the URL is for the
+ * local endpoint, the lambda handler is imported from `@sha256it/functions`
+ * and called in-process, using the destination config and credentials in env.
+ *
+ * @param {URL} url
+ * @param {'hash'|'copy'|'verify'} action
+ * @param {{ method?: string, body?: string }} [init]
+ */
+const invoke = async (url, action, init) => {
+  const { signRequest } = await loadAuth()
+  signRequest(url, action, signingKey(url), { body: init?.body })
+  if (url.protocol !== localEndpoint.protocol) {
+    return fetch(url, { ...init, dispatcher })
+  }
+  let handler = localHandlers.get(action)
+  if (!handler) {
+    const { tsImport } = await import('tsx/esm/api')
+    handler = tsImport(`@sha256it/functions/src/${action}.ts`, import.meta.url).then(m => m._handler)
+    localHandlers.set(action, handler)
+  }
+  const _handler = await handler
+  const request = new Request(`http://localhost/?${url.searchParams}`, init)
+  const res = await _handler(request, { ...process.env, REQUEST_SIGNING_KEY: localSigningKey })
+  return new Response(res.body, { status: res.statusCode, headers: res.headers })
+}
+
+/**
+ * The key to sign requests to the endpoint with. The lambdas reject unsigned
+ * requests, so `REQUEST_SIGNING_KEY` must be set for any but the local endpoint.
+ *
+ * @param {URL} endpoint
+ */
+const signingKey = endpoint => endpoint.protocol === localEndpoint.protocol
+  ? localSigningKey
+  : notNully(process.env, 'REQUEST_SIGNING_KEY', 'missing environment variable')
+
+/** @type {Promise<any>|undefined} */
+let auth
+
+/**
+ * Load the request signing the lambdas verify, from
+ * `packages/functions/src/lib/auth.ts`.
+ */
+const loadAuth = () => {
+  auth = auth ?? import('tsx/esm/api').then(({ tsImport }) => tsImport('@sha256it/functions/src/lib/auth.ts', import.meta.url))
+  return auth
 }
 
 /** @param {string} key */
@@ -190,6 +570,81 @@ const bucketKeyToRootCID = key => {
   }
 }
 
+/**
+ * Keys of the artifacts of a shard in the carpark, satnav and dudewhere
+ * buckets, and of blobs in the carpark bucket. Defined in `packages/functions/src/lib/keys.ts`.
+ *
+ * @typedef {object} KeyLayout
+ * @property {(shard: import('multiformats').UnknownLink) => string} carpark
+ * @property {(shard: import('multiformats').UnknownLink) => string} satnav
+ * @property {(shard: import('multiformats').UnknownLink, format: IndexFormat) => string} index
+ * @property {(root: import('multiformats').UnknownLink, shard: import('multiformats').UnknownLink) => string} dudewhere
+ * @property {(cid: import('multiformats').UnknownLink) => string} blob
+ */
+
+/**
+ * Load the key layout the lambdas use, from the `*_KEY_TEMPLATE` vars in env,
+ * so the cli finds artifacts where the lambdas write them.
+ *
+ * @returns {Promise<KeyLayout>}
+ */
+const loadKeyLayout = async () => {
+  const { tsImport } = await import('tsx/esm/api')
+  const { keyLayoutFromEnv } = await tsImport('@sha256it/functions/src/lib/keys.ts', import.meta.url)
+  return keyLayoutFromEnv(process.env)
+}
+
+/**
+ * Load the prefix of the keys of the multipart upload checkpoints the copy
+ * lambda writes to the destination buckets.
+ *
+ * @returns {Promise<string>}
+ */
+const loadCheckpointPrefix = async () => {
+  const { tsImport } = await import('tsx/esm/api')
+  const { CHECKPOINT_PREFIX } = await tsImport('@sha256it/functions/src/lib/keys.ts', import.meta.url)
+  return CHECKPOINT_PREFIX
+}
+
+/**
+ * Formats of the satnav index. Defined in `packages/functions/src/lib/satnav.ts`.
+ *
+ * @typedef {'multihash-index-sorted'|'index-sorted'|'sharded-dag-index'} IndexFormat
+ */
+
+/**
+ * Load the index formats in a comma separated option, or if not set, the
+ * formats the lambdas write, from the `INDEX_FORMATS` var in env.
+ *
+ * @param {string|undefined} value
+ * @returns {Promise<IndexFormat[]>}
+ */
+const loadIndexFormats = async value => {
+  const { tsImport } = await import('tsx/esm/api')
+  const { indexFormatsFromEnv } = await tsImport('@sha256it/functions/src/lib/satnav.ts', import.meta.url)
+  return indexFormatsFromEnv({ INDEX_FORMATS: value ?? process.env.INDEX_FORMATS })
+}
+
+/**
+ * Split a comma separated option into its values.
+ *
+ * @param {string|undefined} value
+ */
+const listOption = value => value ? value.split(',').map(s => s.trim()).filter(Boolean) : undefined
+
+/**
+ * With `--source`, the in-process handlers read source objects from a
+ * directory or HTTP server instead of S3, as selected by `SOURCE_DIR` or
+ * `SOURCE_URL` in their env.
+ *
+ * @param {Record<string, string|undefined>} options
+ */
+const useLocalSource = options => {
+  if (!options.source) return
+  if (!options.local) throw new Error('--source can only be used with --local')
+  process.env[/^https?:\/\//.test(options.source) ? 'SOURCE_URL' : 'SOURCE_DIR'] = options.source
+}
+
 /**
  * @param {Record<string, string|undefined>} obj
  * @param {string} key
@@ -201,69 +656,460 @@ const notNully = (obj, key, msg = 'unexpected null value') => {
 }
 
 cli.command('head [carCid]')
-  .describe('Check head response for a car cid at a bucket endpoint')
+  .describe('Check head responses for the CAR, index and link of a car cid at a bucket endpoint, and compare the CAR size with the source object.')
   .example('head bagbaieraaosiqlj4gia2lx35dl7ofqynk7xs47aijrnyrfwny6nea4i6srua -r auto -b carpark --endpoint https://<ACCOUNT_ID>.r2.cloudflarestorage.com')
   .option('-e, --endpoint', 'Bucket endpoint. e.g https://<ACCOUNT_ID>.r2.cloudflarestorage.com')
   .option('-r, --region', 'Bucket region', 'us-east-1') // "When using the S3 API, the region for an R2 bucket is auto. For compatibility with tools that do not allow you to specify a region, an empty value and us-east-1 will alias to the auto region."
-  .option('-b, --bucket', 'Bucket name.')
+  .option('-b, --bucket', 'Bucket name (default CARPARK_BUCKET).')
+  .option('--satnav-bucket', 'Index bucket name (default SATNAV_BUCKET). The index is not checked if neither is set.')
+  .option('--dudewhere-bucket', 'Link bucket name (default DUDEWHERE_BUCKET). The link is not checked if neither is set.')
+  .option('--root', 'DAG root CID, to check the link for.')
+  .option('--kind', 'Check a car, or a blob in the carpark bucket, unless set on the input item.', 'car')
+  .option('--index', 'Comma separated formats of the satnav index to check (default INDEX_FORMATS, or multihash-index-sorted).')
   .action(async (/** @type {string|undefined} */ cidstr, /** @type {Record<string, string|undefined>} */ options) => {
     const accessKeyId = notNully(process.env, 'DEST_ACCESS_KEY_ID', 'missing environment variable')
     const secretAccessKey = notNully(process.env, 'DEST_SECRET_ACCESS_KEY', 'missing environment variable')
     const endpoint = options.endpoint ?? notNully(process.env, 'DEST_ENDPOINT', 'missing required environment variable')
     const region = options.region ?? notNully(process.env, 'DEST_REGION', 'missing required environment variable')
-    const bucket = notNully(options, 'bucket', 'missing required option')
-    const client = new S3Client({ region, endpoint, credentials: { accessKeyId, secretAccessKey },  })
+    /** @type {HeadDestination} */
+    const dest = {
+      region,
+      bucket: options.bucket ?? notNully(process.env, 'CARPARK_BUCKET', 'missing required option'),
+      satnavBucket: options['satnav-bucket'] ?? process.env.SATNAV_BUCKET,
+      dudewhereBucket: options['dudewhere-bucket'] ?? process.env.DUDEWHERE_BUCKET,
+      keys: await loadKeyLayout(),
+      indexFormats: await loadIndexFormats(options.index),
+      client: new S3Client({ region, endpoint, credentials: { accessKeyId, secretAccessKey } })
+    }
 
+    const defaultKind = parseKind(options.kind)
     if (cidstr) {
       const cid = Link.parse(cidstr)
-      const res = await head(cid, bucket, region, client)
+      const root = options.root ? Link.parse(options.root) : undefined
+      const res = await head(cid, dest, { root, kind: defaultKind })
       return console.log(dagJSON.stringify(res))
     }
 
+    // source objects are read with the default AWS credentials
+    /** @type {Map<string, S3Client>} */
+    const sourceClients = new Map()
+    /** @param {string} region */
+    const sourceClient = region => {
+      let client = sourceClients.get(region)
+      if (!client) {
+        client = new S3Client({ region })
+        sourceClients.set(region, client)
+      }
+      return client
+    }
+
     const source = /** @type {ReadableStream<Uint8Array>} */ (Readable.toWeb(process.stdin))
     await source
-      .pipeThrough(/** @type {Parse<{ region?: string, bucket?: string, key: string, cid: { '/': string }, root?: { '/': string } }>} */ (new Parse()))
+      .pipeThrough(/** @type {Parse<{ region?: string, bucket?: string, key?: string, kind?: string, cid: { '/': string }, root?: { '/': string }, piece?: { '/': string } }>} */ (new Parse()))
       .pipeThrough(new Parallel(concurrency, item => {
         const cid = Link.parse(item.cid['/'])
-        return head(cid, bucket, region, client)
+        const kind = item.kind ? parseKind(item.kind) : defaultKind
+        const piece = item.piece ? Link.parse(item.piece['/']) : undefined
+        const root = kind === 'blob'
+          ? undefined
+          : item.root
+          ? Link.parse(item.root['/'])
+          : options.root
+          ? Link.parse(options.root)
+          : item.key ? bucketKeyToRootCID(item.key) : undefined
+        const src = item.region && item.bucket && item.key
+          ? { region: item.region, bucket: item.bucket, key: item.key, client: sourceClient(item.region) }
+          : undefined
+        return head(cid, dest, { piece, root, source: src, kind })
       }))
       .pipeThrough(new Stringify(dagJSON.stringify))
       .pipeTo(Writable.toWeb(process.stdout))
   })
 
 /**
- * Check head response for car cid at the given bucket endpoint
- * Flag error if status not 200 or content-length: 0
- * 
+ * @typedef {{ region: string, bucket: string, satnavBucket?: string, dudewhereBucket?: string, keys: KeyLayout, indexFormats: IndexFormat[], client: S3Client }} HeadDestination
+ * @typedef {{ region: string, bucket: string, key: string, client: S3Client }} HeadSource
+ */
+
+/**
+ * Check head responses for the carpark CAR, the satnav index in each format
+ * and, if the root is known, the dudewhere link of a car cid at the given
+ * bucket endpoint.
+ * Flag error if the CAR status is not 200 or content-length: 0, if the piece
+ * CID stored in the object metadata differs from the expected piece CID, if
+ * the index or link is missing, or if the CAR size differs from the source.
+ * A blob has no index or links, so only the carpark object is checked. The
+ * index and link are not checked if their bucket is not set, and are reported
+ * as `{ skipped: true }`.
+ *
+ * The carpark result is in the top level `status` and `length`, and each other
+ * artifact has its own `status`. `index` is the index in the first format, and
+ * with more than one format, `indexes` has the index in each. If any check
+ * fails, `error` is set.
+ *
  * public url access is not enabled on carpark, so we must provide auth
- * 
+ *
  * @param {import('multiformats').UnknownLink} cid
- * @param {string} bucket
- * @param {string} region
+ * @param {HeadDestination} dest
+ * @param {{ piece?: import('multiformats').UnknownLink, root?: import('multiformats').UnknownLink, source?: HeadSource, kind?: Kind }} [options]
+ */
+async function head (cid, dest, options = {}) {
+  const { region, bucket, client } = dest
+  const { piece: expectedPiece, root, source, kind = 'car' } = options
+  const key = kind === 'blob' ? dest.keys.blob(cid) : dest.keys.carpark(cid)
+  const { satnavBucket, dudewhereBucket } = dest
+  const indexFormats = kind === 'blob' || !satnavBucket ? [] : dest.indexFormats
+  const linkKey = root && kind !== 'blob' ? dest.keys.dudewhere(root, cid) : undefined
+  const [car, link, src, indexes] = await Promise.all([
+    headObject(client, bucket, key),
+    linkKey && dudewhereBucket ? headObject(client, dudewhereBucket, linkKey) : undefined,
+    source ? headObject(source.client, source.bucket, source.key) : undefined,
+    Promise.all(indexFormats.map(async format => {
+      const indexKey = dest.keys.index(cid, format)
+      return { format, key: indexKey, ...await headObject(client, satnavBucket ?? '', indexKey) }
+    }))
+  ])
+
+  /** @type {string[]} */
+  const errors = []
+  const piece = car.metadata?.piece ? Link.parse(car.metadata.piece) : expectedPiece
+  if (car.error) {
+    errors.push(car.error)
+  } else if (car.status !== 200) {
+    errors.push(`http status: ${car.status}`)
+  } else if (!car.length) {
+    errors.push('content-length: 0')
+  } else if (piece && expectedPiece && !piece.equals(expectedPiece)) {
+    errors.push(`piece mismatch: ${piece}`)
+  }
+  for (const index of indexes) {
+    if (index.error || index.status !== 200 || !index.length) {
+      const name = indexes.length > 1 ? `index ${index.format}` : 'index'
+      errors.push(`${name} ${index.error ?? (index.status === 200 ? 'content-length: 0' : `http status: ${index.status}`)}`)
+    }
+  }
+  if (link && (link.error || link.status !== 200)) {
+    errors.push(`link ${link.error ?? `http status: ${link.status}`}`)
+  }
+  if (src && (src.error || src.status !== 200)) {
+    errors.push(`source ${src.error ?? `http status: ${src.status}`}`)
+  } else if (src && car.status === 200 && src.length !== car.length) {
+    errors.push(`size mismatch: source ${src.length}, carpark ${car.length}`)
+  }
+
+  const result = {
+    cid,
+    ...kindField(kind),
+    ...(piece ? { piece } : {}),
+    region,
+    bucket,
+    key,
+    ...(car.status ? { status: car.status } : {}),
+    ...(car.status === 200 ? { length: car.length } : {}),
+    ...(indexes.length ? { index: { bucket: satnavBucket, key: indexes[0].key, ...artifactStatus(indexes[0]) } } : {}),
+    ...(indexes.length > 1 ? { indexes: Object.fromEntries(indexes.map(index => [index.format, { bucket: satnavBucket, key: index.key, ...artifactStatus(index) }])) } : {}),
+    ...(kind !== 'blob' && !satnavBucket ? { index: { skipped: true } } : {}),
+    ...(link ? { link: { bucket: dudewhereBucket, key: linkKey, ...artifactStatus(link) } } : {}),
+    ...(linkKey && !dudewhereBucket ? { link: { skipped: true } } : {}),
+    ...(src && source ? { source: { region: source.region, bucket: source.bucket, key: source.key, ...artifactStatus(src) } } : {})
+  }
+  if (!errors.length) return result
+
+  const error = errors.join(', ')
+  console.warn(`error: ${region}/${bucket}/${key} - ${error}`)
+  return { ...result, error }
+}
+
+/**
+ * HEAD an object. Error statuses are returned rather than thrown, and `error`
+ * is only set if the request failed without a response.
+ *
  * @param {S3Client} client
+ * @param {string} bucket
+ * @param {string} key
+ * @returns {Promise<{ status?: number, length?: number, metadata?: Record<string, string>, error?: string }>}
  */
-async function head (cid, bucket, region, client) {
-  const key = `${cid}/${cid}.car`
+const headObject = async (client, bucket, key) => {
   try {
-    const cmd = new HeadObjectCommand({ Bucket: bucket, Key: key })
-    const res = await client.send(cmd)
-    const status = res.$metadata.httpStatusCode
-    if (status === 200) {
-      const length = res.ContentLength ?? 0
-      if (length > 0) {
-        return { cid, region, bucket, key, status, length }
-      }
-      console.warn(`error: ${region}/${bucket}/${key} - content-length: 0`)
-      return { cid, region, bucket, key, status, length, error: `content-length: 0` }
-    }
-    console.warn(`error: ${region}/${bucket}/${key} - http status: ${status}`)
-    return { cid, region, bucket, key, status, error: `http status: ${status}` }
+    const res = await client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }))
+    return { status: res.$metadata.httpStatusCode, length: res.ContentLength ?? 0, metadata: res.Metadata }
   } catch (err) {
-    console.warn(`error: ${region}/${bucket}/${key}`, err.message ?? err)
-    return { cid, region, bucket, key, error: err.message ?? err }
+    const status = err.$metadata?.httpStatusCode
+    return status ? { status } : { error: err.message ?? String(err) }
   }
 }
 
+/** @param {{ status?: number, length?: number, error?: string }} res */
+const artifactStatus = ({ status, length, error }) => ({
+  ...(status ? { status } : {}),
+  ...(status === 200 ? { length } : {}),
+  ...(error ? { error } : {})
+})
+
+cli.command('plan')
+  .describe('Plan copies of hashed items without writing anything. The source object and its carpark destination are HEADed, and each item is classified as `skip` (already exists), `put` or `multipart`, as the copy lambda would copy it. Totals are written to stderr. Note: expects env vars for DEST_ACCESS_KEY_ID and DEST_SECRET_ACCESS_KEY to be set.')
+  .example('plan --region auto --bucket carpark --endpoint https://<ACCOUNT_ID>.r2.cloudflarestorage.com < hashed.ndjson > plan.ndjson')
+  .option('-e, --endpoint', 'Carpark bucket endpoint (default DEST_ENDPOINT).')
+  .option('-r, --region', 'Carpark bucket region (default DEST_REGION).')
+  .option('-b, --bucket', 'Carpark bucket name (default CARPARK_BUCKET).')
+  .option('--kind', 'Plan copies of cars or blobs, unless set on the input item.', 'car')
+  .option('--memory', 'Memory of the copy lambda in MB, for the GB-seconds estimate.', '1024')
+  .option('--throughput', 'MiB per second a copy is assumed to transfer, for the GB-seconds estimate.', '50')
+  .action(async (/** @type {Record<string, string|undefined>} */ options) => {
+    const accessKeyId = notNully(process.env, 'DEST_ACCESS_KEY_ID', 'missing environment variable')
+    const secretAccessKey = notNully(process.env, 'DEST_SECRET_ACCESS_KEY', 'missing environment variable')
+    const endpoint = options.endpoint ?? notNully(process.env, 'DEST_ENDPOINT', 'missing required environment variable')
+    const region = options.region ?? notNully(process.env, 'DEST_REGION', 'missing required environment variable')
+    const bucket = options.bucket ?? notNully(process.env, 'CARPARK_BUCKET', 'missing required option')
+    const client = new S3Client({ region, endpoint, credentials: { accessKeyId, secretAccessKey } })
+    const keys = await loadKeyLayout()
+    const planner = await loadCopyPlanner()
+    const planOptions = {
+      memorySize: parseInt(notNully(options, 'memory', 'missing required option')),
+      throughput: parseFloat(notNully(options, 'throughput', 'missing required option')) * 1024 * 1024
+    }
+    const defaultKind = parseKind(options.kind)
+
+    // source objects are read with the default AWS credentials
+    /** @type {Map<string, S3Client>} */
+    const sourceClients = new Map()
+    /** @param {string} region */
+    const sourceClient = region => {
+      let client = sourceClients.get(region)
+      if (!client) {
+        client = new S3Client({ region })
+        sourceClients.set(region, client)
+      }
+      return client
+    }
+
+    const totals = { objects: 0, skip: 0, put: 0, multipart: 0, failed: 0, bytes: 0, gbSeconds: 0 }
+    const source = /** @type {ReadableStream<Uint8Array>} */ (Readable.toWeb(process.stdin))
+    await source
+      .pipeThrough(/** @type {Parse<{ region: string, bucket: string, key: string, kind?: string, cid: { '/': string }, root?: { '/': string }, piece?: { '/': string } }>} */ (new Parse()))
+      .pipeThrough(new Parallel(concurrency, async item => {
+        const kind = item.kind ? parseKind(item.kind) : defaultKind
+        const cid = Link.parse(item.cid['/'])
+        const destKey = kind === 'blob' ? keys.blob(cid) : keys.carpark(cid)
+        const result = { ...item, ...kindField(kind) }
+        totals.objects++
+        try {
+          const [src, dest] = await Promise.all([
+            retry(() => headObject(sourceClient(item.region), item.bucket, item.key)),
+            retry(() => headObject(client, bucket, destKey))
+          ])
+          if (src.error || src.status !== 200) throw new Error(`source ${src.error ?? `http status: ${src.status}`}`)
+          if (dest.error || (dest.status !== 200 && dest.status !== 404)) throw new Error(`carpark ${dest.error ?? `http status: ${dest.status}`}`)
+
+          const size = src.length ?? 0
+          const method = planner.planCopy(size, dest.status === 200)
+          const gbSeconds = planner.estimateGBSeconds(size, method, planOptions)
+          totals[method]++
+          if (method !== 'skip') totals.bytes += size
+          totals.gbSeconds += gbSeconds
+          return { ...result, plan: method, size, carpark: { bucket, key: destKey, ...artifactStatus(dest) }, gbSeconds }
+        } catch (err) {
+          console.warn(`failed plan of ${item.region}/${item.bucket}/${item.key}`, err)
+          totals.failed++
+          return { ...result, error: err.message }
+        }
+      }))
+      .pipeThrough(new Stringify(dagJSON.stringify))
+      .pipeTo(Writable.toWeb(process.stdout))
+
+    console.warn('plan summary:')
+    console.warn(`  objects: ${totals.objects} (${totals.skip} skip, ${totals.put} put, ${totals.multipart} multipart, ${totals.failed} failed)`)
+    console.warn(`  bytes to transfer: ${totals.bytes}`)
+    console.warn(`  multipart uploads: ${totals.multipart}`)
+    console.warn(`  estimated lambda GB-seconds: ${totals.gbSeconds.toFixed(1)}`)
+  })
+
+/**
+ * Load the functions that plan copies the way the copy lambda makes them.
+ * Defined in `packages/functions/src/lib/plan.ts`.
+ *
+ * @returns {Promise<{ planCopy: (size: number, exists: boolean) => 'skip'|'put'|'multipart', estimateGBSeconds: (size: number, method: 'skip'|'put'|'multipart', options: { memorySize: number, throughput: number }) => number }>}
+ */
+const loadCopyPlanner = async () => {
+  const { tsImport } = await import('tsx/esm/api')
+  return await tsImport('@sha256it/functions/src/lib/plan.ts', import.meta.url)
+}
+
+cli.command('verify [cid]')
+  .describe('Verify the CAR, index and link of copied shards. Each check is reported separately.')
+  .example('verify bagbaieraaosiqlj4gia2lx35dl7ofqynk7xs47aijrnyrfwny6nea4i6srua --root bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi')
+  .option('--root', 'DAG root CID (read from the CAR header if not set).')
+  .option('-e, --endpoint', 'Service endpoint.')
+  .option('--local', 'Verify in-process instead of calling the verify lambda. Destination config and credentials are read from env.', false)
+  .option('--timing', 'Include the milliseconds taken by the lambda and the request in the output.', false)
+  .option('--index', 'Comma separated formats of the satnav index to verify (default INDEX_FORMATS of the verify lambda).')
+  .action(async (/** @type {string|undefined} */ cidstr, /** @type {Record<string, string|undefined>} */ options) => {
+    const endpoint = options.local
+      ? localEndpoint
+      : new URL(options.endpoint ?? notNully(process.env, 'VERIFY_SERVICE_ENDPOINT', 'missing required option'))
+    signingKey(endpoint)
+    const verifyOptions = { timing: Boolean(options.timing), indexFormats: listOption(options.index) }
+    if (cidstr) {
+      const cid = Link.parse(cidstr)
+      const root = options.root ? Link.parse(options.root) : undefined
+      const { ok, ...result } = await verify(endpoint, cid, root, verifyOptions)
+      return console.log(dagJSON.stringify({ cid, ...(root ? { root } : {}), ...result }))
+    }
+
+    const source = /** @type {ReadableStream<Uint8Array>} */ (Readable.toWeb(process.stdin))
+    await source
+      .pipeThrough(/** @type {Parse<{ cid: { '/': string }, root?: { '/': string } }>} */ (new Parse()))
+      .pipeThrough(new Parallel(concurrency, async item => {
+        const cid = Link.parse(item.cid['/'])
+        const root = item.root ? Link.parse(item.root['/']) : undefined
+        try {
+          const { ok, ...result } = await retry(() => verify(endpoint, cid, root, verifyOptions))
+          return { ...item, ...result }
+        } catch (err) {
+          console.warn(`failed verify of ${cid}`, err)
+          return { ...item, error: err.message }
+        }
+      }))
+      .pipeThrough(new Stringify(dagJSON.stringify))
+      .pipeTo(Writable.toWeb(process.stdout))
+  })
+
+/**
+ * @param {URL} endpoint
+ * @param {import('multiformats').UnknownLink} shard
+ * @param {import('multiformats').UnknownLink} [root]
+ * @param {{ timing?: boolean, indexFormats?: string[] }} [options]
+ * @returns {Promise<{ ok: true, shard: import('multiformats').UnknownLink, valid: boolean, car: { ok: boolean, size?: number, blocks?: number, error?: string }, index: { ok: boolean, entries?: number, error?: string, formats?: Record<string, { ok: boolean, entries?: number, error?: string }> }, link: { ok: boolean, roots?: import('multiformats').UnknownLink[], error?: string }, timing?: Timing }>}
+ */
+const verify = async (endpoint, shard, root, options) => {
+  const url = new URL(endpoint)
+  url.searchParams.set('shard', shard.toString())
+  if (root) url.searchParams.set('root', root.toString())
+  if (options?.timing) url.searchParams.set('timing', 'true')
+  for (const format of options?.indexFormats ?? []) url.searchParams.append('index', format)
+  const elapsed = startTimer()
+  const res = await invoke(url, 'verify')
+  const text = await res.text()
+  if (!res.ok) throw new Error(`verify failed: ${text}`)
+  return withTotalTime(dagJSON.parse(text), elapsed, options)
+}
+
+cli.command('diff')
+  .describe('Compare hashed source CARs with the carpark, satnav and dudewhere buckets. Outputs the items missing from each bucket, and the objects in each bucket that do not match any item. Note: expects env vars for DEST_ACCESS_KEY_ID and DEST_SECRET_ACCESS_KEY to be set.')
+  .example('diff -r auto -b carpark --endpoint https://<ACCOUNT_ID>.r2.cloudflarestorage.com < hashed.ndjson')
+  .option('-e, --endpoint', 'Bucket endpoint. e.g https://<ACCOUNT_ID>.r2.cloudflarestorage.com')
+  .option('-r, --region', 'Bucket region', 'us-east-1')
+  .option('-b, --bucket', 'Bucket name (default CARPARK_BUCKET).')
+  .option('--satnav-bucket', 'Index bucket name (default SATNAV_BUCKET).')
+  .option('--dudewhere-bucket', 'Link bucket name (default DUDEWHERE_BUCKET).')
+  .option('--index', 'Comma separated formats of the satnav index to expect (default INDEX_FORMATS, or multihash-index-sorted).')
+  .action(async (/** @type {Record<string, string|undefined>} */ options) => {
+    const accessKeyId = notNully(process.env, 'DEST_ACCESS_KEY_ID', 'missing environment variable')
+    const secretAccessKey = notNully(process.env, 'DEST_SECRET_ACCESS_KEY', 'missing environment variable')
+    const endpoint = options.endpoint ?? notNully(process.env, 'DEST_ENDPOINT', 'missing required environment variable')
+    const region = options.region ?? notNully(process.env, 'DEST_REGION', 'missing required environment variable')
+    const client = new S3Client({ region, endpoint, credentials: { accessKeyId, secretAccessKey } })
+    const keys = await loadKeyLayout()
+    const indexFormats = await loadIndexFormats(options.index)
+    const checkpointPrefix = await loadCheckpointPrefix()
+    const { createSorter, diffSorted } = await loadDiff()
+
+    /** @type {Array<{ name: string, bucket: string, expect: (item: DiffItem) => Array<[string, DiffItem]> }>} */
+    const destinations = [{
+      name: 'carpark',
+      bucket: options.bucket ?? notNully(process.env, 'CARPARK_BUCKET', 'missing required option'),
+      expect: item => [[keys.carpark(item.cid), item]]
+    }, {
+      name: 'satnav',
+      bucket: options['satnav-bucket'] ?? notNully(process.env, 'SATNAV_BUCKET', 'missing required option'),
+      // the index is written in each format, at its own key
+      expect: item => indexFormats.map(format => [keys.index(item.cid, format), indexFormats.length > 1 ? { ...item, index: format } : item])
+    }, {
+      name: 'dudewhere',
+      bucket: options['dudewhere-bucket'] ?? notNully(process.env, 'DUDEWHERE_BUCKET', 'missing required option'),
+      expect: item => item.root ? [[keys.dudewhere(item.root, item.cid), item]] : []
+    }]
+
+    const tmp = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'sha256it-diff-'))
+    try {
+      // sort the expected keys for each bucket, so they can be merged with the
+      // bucket listings, which are in key order.
+      /** @type {Array<Sorter<DiffItem>>} */
+      const sorters = []
+      for (const dest of destinations) {
+        const dir = path.join(tmp, dest.name)
+        await fs.promises.mkdir(dir)
+        sorters.push(createSorter(dir, { codec: { encode: dagJSON.stringify, decode: dagJSON.parse } }))
+      }
+
+      const source = /** @type {ReadableStream<Uint8Array>} */ (Readable.toWeb(process.stdin))
+      await source
+        .pipeThrough(/** @type {Parse<{ region: string, bucket: string, key: string, cid?: { '/': string }, root?: { '/': string }, piece?: { '/': string } }>} */ (new Parse()))
+        .pipeTo(new WritableStream({
+          async write (input) {
+            if (!input.cid) return console.warn(`skipping ${input.region}/${input.bucket}/${input.key}: missing shard CID`)
+            const cid = Link.parse(input.cid['/'])
+            const root = input.root ? Link.parse(input.root['/']) : bucketKeyToRootCID(input.key)
+            const piece = input.piece ? Link.parse(input.piece['/']) : undefined
+            /** @type {DiffItem} */
+            const item = { region: input.region, bucket: input.bucket, key: input.key, cid, ...(root ? { root } : {}), ...(piece ? { piece } : {}) }
+            if (!root) console.warn(`not checking link for ${input.region}/${input.bucket}/${input.key}: unknown DAG root`)
+            for (const [i, dest] of destinations.entries()) {
+              for (const [key, value] of dest.expect(item)) await sorters[i].add(key, value)
+            }
+          }
+        }))
+
+      /** @type {Record<string, { missing: number, orphan: number }>} */
+      const summary = {}
+      async function * results () {
+        for (const [i, dest] of destinations.entries()) {
+          const counts = summary[dest.name] = { missing: 0, orphan: 0 }
+          for await (const res of diffSorted(sorters[i].sorted(), listArtifactKeys(client, dest.bucket, checkpointPrefix))) {
+            if (res.missing) {
+              counts.missing++
+              yield { ...res.missing, missing: dest.name }
+            } else {
+              counts.orphan++
+              yield { region, bucket: dest.bucket, key: res.orphan, orphan: dest.name }
+            }
+          }
+        }
+      }
+
+      await iteratorStream(results())
+        .pipeThrough(new Stringify(dagJSON.stringify))
+        .pipeTo(Writable.toWeb(process.stdout))
+
+      console.warn('diff summary:')
+      for (const [name, { missing, orphan }] of Object.entries(summary)) {
+        console.warn(`  ${name}: ${missing} missing, ${orphan} orphaned`)
+      }
+    } finally {
+      await fs.promises.rm(tmp, { recursive: true, force: true })
+    }
+  })
+
+/**
+ * @typedef {{ region: string, bucket: string, key: string, cid: import('multiformats').UnknownLink, root?: import('multiformats').UnknownLink, piece?: import('multiformats').UnknownLink, index?: IndexFormat }} DiffItem
+ */
+
+/**
+ * @template T
+ * @typedef {{ add: (key: string, value: T) => Promise<void>, sorted: () => AsyncIterable<{ key: string, value: T }> }} Sorter
+ */
+
+/**
+ * Load the external sort and merge `diff` uses to compare expected keys with
+ * bucket listings. Defined in `packages/functions/src/lib/diff.ts`.
+ *
+ * @returns {Promise<{ createSorter: <T>(dir: string, options: { codec: { encode: (entry: { key: string, value: T }) => string, decode: (line: string) => { key: string, value: T } } }) => Sorter<T>, diffSorted: <T>(expected: AsyncIterable<{ key: string, value: T }>, listed: AsyncIterable<string>) => AsyncIterable<{ missing: T, orphan?: undefined }|{ missing?: undefined, orphan: string }> }>}
+ */
+const loadDiff = async () => {
+  const { tsImport } = await import('tsx/esm/api')
+  return await tsImport('@sha256it/functions/src/lib/diff.ts', import.meta.url)
+}
+
 cli
   .command('errors')
   .describe('filter items that have an `error` property from the ndjson list')
@@ -281,4 +1127,190 @@ cli
       .pipeTo(Writable.toWeb(process.stdout))
   })
 
+cli
+  .command('migrate')
+  .describe('List, hash, copy and verify the CARs in a bucket as one pipeline. Progress is recorded in a checkpoint file, so an interrupted migration resumes where it stopped. Note: expects env vars for ACCESS_KEY_ID and SECRET_ACCESS_KEY, and DEST_ACCESS_KEY_ID and DEST_SECRET_ACCESS_KEY to be set.')
+  .option('-e, --endpoint', 'Source bucket endpoint.')
+  .option('-r, --region', 'Source bucket region.')
+  .option('-b, --bucket', 'Source bucket name.')
+  .option('-p, --prefix', 'Key prefix.')
+  .option('--hash-endpoint', 'Hash service endpoint.')
+  .option('--copy-endpoint', 'Copy service endpoint.')
+  .option('--local', 'Hash and copy in-process instead of calling the lambdas.', false)
+  .option('--piece', 'Compute the Filecoin piece CID of each CAR, and store it on the copy.', false)
+  .option('--dest-bucket', 'Bucket to verify copied CARs in (default CARPARK_BUCKET).')
+  .option('-c, --checkpoint', 'Checkpoint file.', 'migrate-checkpoint.ndjson')
+  .action(async (/** @type {Record<string, string|undefined>} */ options) => {
+    const accessKeyId = notNully(process.env, 'AWS_ACCESS_KEY_ID', 'missing environment variable')
+    const secretAccessKey = notNully(process.env, 'AWS_SECRET_ACCESS_KEY', 'missing environment variable')
+    const region = notNully(options, 'region', 'missing required option')
+    const bucket = notNully(options, 'bucket', 'missing required option')
+    const prefix = options.prefix ?? ''
+    const checkpointPath = notNully(options, 'checkpoint', 'missing required option')
+    const s3 = new S3Client({ region, endpoint: options.endpoint, credentials: { accessKeyId, secretAccessKey } })
+
+    const hashEndpoint = options.local
+      ? localEndpoint
+      : new URL(options['hash-endpoint'] ?? notNully(process.env, 'SERVICE_ENDPOINT', 'missing required option'))
+    const copyEndpoint = options.local
+      ? localEndpoint
+      : new URL(options['copy-endpoint'] ?? notNully(process.env, 'COPY_SERVICE_ENDPOINT', 'missing required option'))
+    signingKey(hashEndpoint)
+    signingKey(copyEndpoint)
+
+    /** @type {HeadDestination} */
+    const dest = {
+      bucket: options['dest-bucket'] ?? notNully(process.env, 'CARPARK_BUCKET', 'missing required option'),
+      satnavBucket: process.env.SATNAV_BUCKET,
+      dudewhereBucket: process.env.DUDEWHERE_BUCKET,
+      keys: await loadKeyLayout(),
+      indexFormats: await loadIndexFormats(undefined),
+      region: process.env.DEST_REGION ?? 'auto',
+      client: new S3Client({
+        region: process.env.DEST_REGION ?? 'auto',
+        endpoint: notNully(process.env, 'DEST_ENDPOINT', 'missing required environment variable'),
+        credentials: {
+          accessKeyId: notNully(process.env, 'DEST_ACCESS_KEY_ID', 'missing environment variable'),
+          secretAccessKey: notNully(process.env, 'DEST_SECRET_ACCESS_KEY', 'missing environment variable')
+        }
+      })
+    }
+
+    const checkpoint = await readMigrateCheckpoint(checkpointPath)
+    const pending = [...checkpoint.pending.values()]
+    if (checkpoint.lastKey) {
+      console.warn(`resuming after ${checkpoint.lastKey} with ${pending.length} unfinished items`)
+    }
+
+    /** @param {MigrateItem} item */
+    const record = item => fs.promises.appendFile(checkpointPath, `${dagJSON.stringify(item)}\n`)
+
+    /** @type {Record<MigrateStage, (item: MigrateItem) => Promise<Partial<MigrateItem>>>} */
+    const stages = {
+      list: async () => ({}),
+      hash: async item => {
+        const { cid, piece } = await retry(() => hash(hashEndpoint, item.region, item.bucket, item.key, { piece: Boolean(options.piece) }))
+        return { cid, ...(piece ? { piece } : {}) }
+      },
+      copy: async item => {
+        if (!item.cid) throw new Error('missing shard CID')
+        const { cid, piece } = item
+        const root = bucketKeyToRootCID(item.key)
+        await retry(() => copy(copyEndpoint, item.region, item.bucket, item.key, cid, root, { piece }))
+        return root ? { root } : {}
+      },
+      verify: async item => {
+        if (!item.cid) throw new Error('missing shard CID')
+        const root = item.root ?? bucketKeyToRootCID(item.key)
+        const source = { region: item.region, bucket: item.bucket, key: item.key, client: s3 }
+        const res = await head(item.cid, dest, { piece: item.piece, root, source })
+        if ('error' in res) throw new Error(res.error)
+        return {}
+      }
+    }
+
+    /** @type {Record<MigrateStage, { ok: number, failed: number }>} */
+    const summary = { list: { ok: 0, failed: 0 }, hash: { ok: 0, failed: 0 }, copy: { ok: 0, failed: 0 }, verify: { ok: 0, failed: 0 } }
+
+    async function * items () {
+      yield * pending
+      for await (const key of listCARKeys(s3, bucket, prefix, checkpoint.lastKey)) {
+        /** @type {MigrateItem} */
+        const item = { region, bucket, key, stage: 'list' }
+        await record(item)
+        summary.list.ok++
+        yield item
+      }
+    }
+
+    await iteratorStream(items())
+      .pipeThrough(new Parallel(concurrency, async (/** @type {MigrateItem} */ item) => {
+        // retry a failed stage, otherwise continue from the next one
+        const start = migrateStages.indexOf(item.stage) + (item.error ? 0 : 1)
+        for (const stage of migrateStages.slice(start)) {
+          try {
+            const { error, ...rest } = item
+            item = { ...rest, ...await stages[stage](item), stage }
+            summary[stage].ok++
+          } catch (err) {
+            console.warn(`failed ${stage} of ${item.region}/${item.bucket}/${item.key}`, err.message ?? err)
+            item = { ...item, stage, error: err.message ?? String(err) }
+            summary[stage].failed++
+          }
+          await record(item)
+          if (item.error) break
+        }
+        return item
+      }))
+      .pipeThrough(new Stringify(dagJSON.stringify))
+      .pipeTo(Writable.toWeb(process.stdout))
+
+    console.warn('migrate summary:')
+    for (const [stage, { ok, failed }] of Object.entries(summary)) {
+      console.warn(`  ${stage}: ${ok} ok, ${failed} failed`)
+    }
+  })
+
+/** @typedef {'list'|'hash'|'copy'|'verify'} MigrateStage */
+
+/**
+ * @typedef {object} MigrateItem
+ * @property {string} region
+ * @property {string} bucket
+ * @property {string} key
+ * @property {MigrateStage} stage The last stage run for the item.
+ * @property {string} [error] Set if the last stage failed.
+ * @property {import('multiformats').UnknownLink} [cid]
+ * @property {import('multiformats').UnknownLink} [piece]
+ * @property {import('multiformats').UnknownLink} [root]
+ */
+
+/** @type {MigrateStage[]} */
+const migrateStages = ['list', 'hash', 'copy', 'verify']
+
+/** @param {MigrateItem} item */
+const isMigrated = item => item.stage === 'verify' && !item.error
+
+/**
+ * Read a migrate checkpoint file. Each line is the state of an item after a
+ * stage, so the last line for a key is its current state. Items are recorded
+ * when listed, in key order, so the last listed key is where listing resumes.
+ * The file is read a line at a time, and only the items that have not been
+ * migrated are kept.
+ *
+ * @param {string} path
+ */
+const readMigrateCheckpoint = async path => {
+  /** @type {Map<string, MigrateItem>} */
+  const pending = new Map()
+  /** @type {string|undefined} */
+  let lastKey
+  let input
+  try {
+    input = await fs.promises.open(path)
+  } catch (err) {
+    if (err.code !== 'ENOENT') throw err
+    return { pending, lastKey }
+  }
+  try {
+    for await (const line of readline.createInterface({ input: input.createReadStream(), crlfDelay: Infinity })) {
+      if (!line.trim()) continue
+      /** @type {MigrateItem} */
+      let item
+      try {
+        item = dagJSON.parse(line)
+      } catch {
+        console.warn(`ignoring invalid checkpoint line: ${line}`) // e.g. partially written before a crash
+        continue
+      }
+      if (isMigrated(item)) pending.delete(item.key)
+      else pending.set(item.key, item)
+      if (item.stage === 'list') lastKey = item.key
+    }
+  } finally {
+    await input.close()
+  }
+  return { pending, lastKey }
+}
+
 cli.parse(process.argv)
@@ -1,266 +1,1859 @@
-import crypto from 'node:crypto'
 import { ApiHandler } from 'sst/node/api'
 import { Config } from 'sst/node/config'
-import { AbortMultipartUploadCommand, CompleteMultipartUploadCommand, CompletedPart, CreateMultipartUploadCommand, GetObjectCommand, HeadObjectCommand, PutObjectCommand, S3Client, UploadPartCommand } from '@aws-sdk/client-s3'
-import { Readable } from 'node:stream'
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { SQSEvent } from 'aws-lambda'
 import * as Link from 'multiformats/link'
 import { UnknownLink } from 'multiformats/link'
 import * as Digest from 'multiformats/hashes/digest'
 import { sha256 } from 'multiformats/hashes/sha2'
 import { base64pad } from 'multiformats/bases/base64'
-import { Uint8ArrayList } from 'uint8arraylist'
+import { base58btc } from 'multiformats/bases/base58'
+import * as raw from 'multiformats/codecs/raw'
+import { equals } from 'multiformats/bytes'
 import { CARReaderStream } from 'carstream'
-import { MultihashIndexSortedWriter } from 'cardex/multihash-index-sorted'
-import { mustGetEnv, errorResponse } from './lib/util'
+import { MultihashIndexSortedReader } from 'cardex/multihash-index-sorted'
+import { IndexSortedReader } from 'cardex/index-sorted'
+import * as PieceHasher from '@web3-storage/data-segment/multihash'
+import { createSHA256 } from 'hash-wasm'
+import { mustGetEnv, errorResponse, mapConcurrent } from './lib/util'
+import { verifyRequest } from './lib/auth'
+import { createFSStore, createSourceStore, ObjectHead, ObjectID, ReadableStore, Store, UploadedPart } from './lib/store'
+import { destinationNames, destinationsFromEnv, destinationVar, DEFAULT_DESTINATION, DESTINATION_SECRETS } from './lib/destinations'
+import { checkpointKey, defaultKeyLayout, indexKey, keyLayoutFromEnv, KeyLayout } from './lib/keys'
+import { createIndexWriter, indexFormatsFromEnv, parseIndexFormats, IndexFormat, IndexWriter, SortedIndexFormat, DEFAULT_INDEX_FORMATS, INDEX_FORMATS } from './lib/satnav'
+import { createDAGIndexWriter, decodeDAGIndex, DAGIndexWriter } from './lib/dag-index'
+import { splitCAR, SplitResult } from './lib/reshard'
+import { MAX_PUT_SIZE } from './lib/plan'
+import { log, putMetric, requestID, startTimer, withLogContext, REQUEST_ID_HEADER } from './lib/log'
+import { createJob, createDynamoJobStore, createSQSJobQueue, JobMessage, JobQueue, JobStore } from './lib/jobs'
+import { sourcePolicyFromEnv, validateKind, validateSource, validateObjectSize, validationError, missingParameter, invalidParameter, SourcePolicy, ValidationResult } from './lib/validate'
 
 const CAR_CODEC = 0x0202
-const MAX_PUT_SIZE = 1024 * 1024 * 1024 * 5
+const CAR_CONTENT_TYPE = 'application/vnd.ipld.car'
+const BLOB_CONTENT_TYPE = 'application/octet-stream'
+/** fr32-sha2-256-trunc254-padded-binary-tree */
+const PIECE_MULTIHASH_CODE = 0x1011
 const TARGET_PART_SIZE = 1024 * 1024 * 100
+/** S3 multipart upload limits. */
+const MAX_PARTS = 10_000
+const MAX_PART_SIZE = 1024 * 1024 * 1024 * 5
+/** Maximum bytes of parts held in memory by a multipart upload. */
+const MAX_PART_MEMORY = 1024 * 1024 * 512
+const PART_CONCURRENCY = 4
+const BATCH_CONCURRENCY = 10
+const MAX_BATCH_SIZE = 1000
+const JOB_MAX_ATTEMPTS = 3
+/** Minimum milliseconds between job progress updates. */
+const JOB_PROGRESS_INTERVAL = 10_000
 
 type ShardLink = Link.Link<Uint8Array, typeof CAR_CODEC>
 
-interface ObjectID {
-  region: string
-  bucket: string
-  key: string
-  endpoint?: string
-  credentials?: {
-    accessKeyId: string,
-    secretAccessKey: string
-  }
-}
-
 interface ContentAddressedObjectID<
   Data extends unknown = unknown,
   Format extends number = number,
   Alg extends number = number,
   V extends Link.Version = 1
-> extends ObjectID {
+> extends ObjectID<ReadableStore> {
   cid: Link.Link<Data, Format, Alg, V>
 }
 
 interface ShardObjectID extends ContentAddressedObjectID<Uint8Array, typeof CAR_CODEC> {}
 
-interface ShardSource extends ContentAddressedObjectID<Uint8Array, typeof CAR_CODEC> {
+/** A blob, identified by the raw CID of the SHA-256 of its bytes. */
+interface BlobObjectID extends ContentAddressedObjectID<Uint8Array, typeof raw.code, typeof sha256.code> {}
+
+interface SizedObjectID extends ContentAddressedObjectID {
+  size: number
+}
+
+interface ObjectSource extends SizedObjectID {
+  body: ReadableStream<Uint8Array>
+}
+
+interface ShardSource extends ShardObjectID {
   size: number
   body: ReadableStream<Uint8Array>
 }
 
+/** Content type and metadata of a copied object. */
+interface ObjectMetadata {
+  contentType: string
+  metadata: Record<string, string>
+}
+
 interface PartSource {
   uploadID: string
   partNumber: number
   body: Uint8Array
+  /** Base64 encoded SHA-256 of the body, if it has already been computed. */
+  checksumSHA256?: string
+}
+
+/**
+ * A multipart upload, persisted when it is created so it may be resumed, and
+ * again each time a part is hashed. The parts uploaded so far are listed when
+ * it is resumed.
+ */
+interface MultipartCheckpoint {
+  uploadID: string
+  /** Bytes in each part. */
+  partSize: number
+  /** The parts hashed so far, from the first, and the state of the hasher. */
+  hashed?: HashCheckpoint
+}
+
+interface HashCheckpoint {
+  /** Number of parts hashed. */
+  parts: number
+  /** Base64 encoded SHA-256 state after the parts were hashed. */
+  state: string
+}
+
+/** A multipart upload to resume, and the parts that were uploaded before. */
+interface ResumableUpload extends MultipartCheckpoint {
+  /**
+   * Uploaded parts, in order, from the first part up to the first missing
+   * part. Includes at least the parts that were hashed.
+   */
+  parts: UploadedPart[]
 }
 
-export const handler = ApiHandler(event => _handler.call(null, new Request(`http://localhost/?${event.rawQueryString}`), process.env))
+/** A multipart upload of the source to the destination of a target. */
+interface MultipartWrite {
+  target: { name: string }
+  dest: ObjectID
+  meta: ObjectMetadata
+  resume?: ResumableUpload
+}
+
+interface MultipartOptions {
+  concurrency?: number
+  partSize?: number
+  onProgress?: (bytes: number) => void
+  verified?: Promise<void>
+  /** Written with the parts of the source, in order. */
+  body?: WritableStream<Uint8Array>
+}
+
+/** A multipart upload in progress. */
+interface MultipartUpload extends MultipartWrite {
+  uploadID: string
+  /** Parts that were uploaded before the upload was resumed. */
+  listed: UploadedPart[]
+  /** Number of parts that were hashed before the upload was resumed. */
+  hashed: number
+  /** Parts hashed so far, in order. */
+  parts: UploadedPart[]
+  /** Number of parts uploaded. */
+  uploaded: number
+  /** Set when the upload fails, after which no more parts are uploaded to it. */
+  error?: any
+  /** Set when a part is not uploaded, after which no more parts are hashed for it. */
+  stopped?: boolean
+}
+
+/** The stages of a shard copy, in the order their writes are made. */
+type ShardStage = 'car' | 'index' | 'link'
+
+/** The stages of a copy. A blob copy has only a `blob` stage. */
+type CopyStage = ShardStage | 'blob'
+
+type Rollback = Array<() => Promise<unknown>>
+
+/** What happened to an artifact during a copy. */
+type ArtifactStatus = 'skipped' | 'created' | 'repaired'
+
+type ShardWritePlan = Record<ShardStage, ArtifactStatus>
+
+/** The plan for a shard that does not exist at the destination. */
+const CREATE_PLAN: ShardWritePlan = { car: 'created', index: 'created', link: 'created' }
+
+/** A destination to copy a shard to. */
+interface ShardTarget {
+  /** Name of the destination, for logs and responses. */
+  name: string
+  dest: ObjectID
+  indexDest: ObjectID
+  linkDest: Store
+}
+
+/** A destination to copy a blob to. */
+interface BlobTarget {
+  name: string
+  dest: ObjectID
+}
+
+/** A shard target, and the artifacts to write to it. */
+interface ShardWrite {
+  target: ShardTarget
+  plan: ShardWritePlan
+  /** DAG roots, if known before the CAR is read. */
+  roots?: UnknownLink[]
+}
+
+type CopyResponse = ReturnType<typeof errorResponse>
+
+interface CARIndex {
+  /** Offsets of the blocks, if a MultihashIndexSorted or IndexSorted index is written. */
+  index?: IndexWriter
+  /** Positions of the blocks, if a sharded DAG index is written. */
+  dagIndex?: DAGIndexWriter
+  /** DAG roots from the CAR header. */
+  roots: UnknownLink[]
+}
+
+interface CopyOptions {
+  maxPutSize?: number
+  /** Abort in progress multipart uploads to the destination that cannot be resumed. */
+  cleanup?: boolean
+  /** Maximum number of parts to transfer at the same time in a multipart upload. */
+  concurrency?: number
+  /** Bytes in each part of a multipart upload. Chosen from the object size if not set. */
+  partSize?: number
+  /**
+   * If the CAR already exists at the destination, check it and the index and
+   * link, and write any that are missing or invalid.
+   */
+  repair?: boolean
+  /** DAG root CIDs to link the shard to. Read from the CAR header if not set. */
+  roots?: UnknownLink[]
+  /**
+   * Filecoin piece CID of the CAR, stored as metadata on the CAR object. It is
+   * checked against the piece CID computed as the source is read, and the
+   * copy fails if they differ.
+   */
+  piece?: UnknownLink
+  /** Maximum size of the source object. */
+  maxObjectSize?: number
+  /** Called with the total number of CAR bytes written as the copy progresses. */
+  onProgress?: (bytes: number) => void
+  /** Include the milliseconds spent in each stage in the response. */
+  timing?: boolean
+  /**
+   * Key layout of the destination buckets, for dudewhere keys and the keys of
+   * resharded CARs. The default layout if not set.
+   */
+  keys?: KeyLayout
+  /**
+   * Maximum size of a shard. A larger source CAR is split into several CARs
+   * under the limit, and each is copied as a shard with its own CAR CID.
+   */
+  maxShardSize?: number
+  /** Names of the destinations to copy to. All destinations in env if not set. */
+  destinations?: string[]
+  /**
+   * Formats to write the satnav index of a shard in, each at its own key. The
+   * default formats if not set.
+   */
+  indexFormats?: IndexFormat[]
+  /**
+   * Write the dudewhere links of the shard, unless `false`. Resharded CARs are
+   * linked only once the source CAR has been checked.
+   */
+  links?: boolean
+}
 
-export const _handler = async (request: Request, env: Record<string, string|undefined>) => {
+/** Where async copy jobs are stored and queued. */
+export interface JobContext {
+  jobs: JobStore
+  queue: JobQueue
+}
+
+export const handler = ApiHandler(event => _handler.call(null, new Request(`http://localhost/?${event.rawQueryString}`, {
+  method: event.requestContext.http.method,
+  headers: { [REQUEST_ID_HEADER]: event.requestContext.requestId },
+  body: event.body && event.isBase64Encoded ? Buffer.from(event.body, 'base64') : event.body
+}), {
+  ...process.env,
+  // @ts-expect-error
+  REQUEST_SIGNING_KEY: Config.REQUEST_SIGNING_KEY,
+  // @ts-expect-error
+  DEST_ACCESS_KEY_ID: Config.DEST_ACCESS_KEY_ID,
+  // @ts-expect-error
+  DEST_SECRET_ACCESS_KEY: Config.DEST_SECRET_ACCESS_KEY,
+  ...destinationSecrets()
+}))
+
+export const jobHandler = (event: SQSEvent) => _jobHandler(event, {
+  ...process.env,
+  // @ts-expect-error
+  DEST_ACCESS_KEY_ID: Config.DEST_ACCESS_KEY_ID,
+  // @ts-expect-error
+  DEST_SECRET_ACCESS_KEY: Config.DEST_SECRET_ACCESS_KEY,
+  ...destinationSecrets()
+})
+
+export const deadLetterHandler = (event: SQSEvent) => _deadLetterHandler(event, process.env)
+
+/** Credentials of the destinations listed in `DESTINATIONS`, which are bound as secrets. */
+const destinationSecrets = () => Object.fromEntries(
+  destinationNames(process.env).filter(name => name !== DEFAULT_DESTINATION).flatMap(name =>
+    DESTINATION_SECRETS.map(secret => {
+      const key = destinationVar(name, secret)
+      // @ts-expect-error
+      return [key, Config[key]]
+    })))
+
+/**
+ * Copy a single shard identified by search params, or, for a POST request, a
+ * batch of shards from a newline delimited JSON body.
+ *
+ * A POST with `async=true` submits a copy job for the shard identified by the
+ * search params, and a GET with `job=<id>` responds with the status of a job.
+ */
+export const _handler = (request: Request, env: Record<string, string|undefined>, context?: JobContext) =>
+  withLogContext({ requestId: requestID(request) }, () => handleRequest(request, env, context))
+
+const handleRequest = async (request: Request, env: Record<string, string|undefined>, context?: JobContext) => {
   try {
-    const { searchParams } = new URL(request.url)
-
-    const srcRegion = searchParams.get('region')
-    if (!srcRegion) return errorResponse('Missing "region" search parameter', 400)
-    if (!['us-east-2', 'us-west-2'].includes(srcRegion)) return errorResponse('Invalid region', 400)
-
-    const srcBucketName = searchParams.get('bucket')
-    if (!srcBucketName) return errorResponse('Missing "bucket" search parameter', 400)
-    if (!srcBucketName.startsWith('dotstorage')) return errorResponse('Invalid bucket', 400)
-
-    const srcKey = searchParams.get('key')
-    if (!srcKey) return errorResponse('Missing "key" search parameter', 400)
-    if (!srcKey.endsWith('.car')) return errorResponse('Only keys for CARs supported', 400)
-
-    const shardstr = searchParams.get('shard')
-    if (!shardstr) return errorResponse('Missing "shard" search parameter', 400)
-    const shard: ShardLink = Link.parse(shardstr)
-    if (shard.code !== CAR_CODEC) return errorResponse('Not a CAR file hash', 400)
-
-    const rootstr = searchParams.get('root')
-    if (!rootstr) return errorResponse('Missing "root" search parameter', 400)
-    const root: UnknownLink = Link.parse(rootstr).toV1()
-
-    const src = {
-      cid: shard,
-      region: srcRegion,
-      bucket: srcBucketName,
-      key: srcKey
-    }
-
-    const dest = {
-      endpoint: mustGetEnv(env, 'DEST_ENDPOINT'),
-      region: mustGetEnv(env, 'DEST_REGION'),
-      credentials: {
-        // @ts-expect-error
-        accessKeyId: Config.DEST_ACCESS_KEY_ID,
-        // @ts-expect-error
-        secretAccessKey: Config.DEST_SECRET_ACCESS_KEY
-      }
+    const url = new URL(request.url)
+    const body = request.method === 'POST' ? await request.text() : undefined
+    const authError = verifyRequest(url, 'copy', mustGetEnv(env, 'REQUEST_SIGNING_KEY'), { body })
+    if (authError) return authError
+    const { searchParams } = url
+
+    const jobID = searchParams.get('job')
+    if (request.method === 'GET' && jobID) {
+      return await getJob(jobID, context ?? jobContext(env))
     }
 
-    return await copy(src, {
-      bucket: mustGetEnv(env, 'CARPARK_BUCKET'),
-      key: `${shard}/${shard}.car`,
-      ...dest
-    }, {
-      bucket: mustGetEnv(env, 'SATNAV_BUCKET'),
-      key: `${shard}/${shard}.car.idx`,
-      ...dest
-    }, {
-      bucket: mustGetEnv(env, 'DUDEWHERE_BUCKET'),
-      key: `${root}/${shard}`,
-      ...dest
-    })
+    const policy = sourcePolicyFromEnv(env)
+    if (request.method === 'POST' && searchParams.get('async') === 'true') {
+      return await submitJob(searchParams, policy, env, context ?? jobContext(env))
+    }
+
+    const maxShardSizeError = validateMaxShardSize(searchParams)
+    if (maxShardSizeError) return maxShardSizeError
+    const destinationsError = validateDestinations(searchParams, env)
+    if (destinationsError) return destinationsError
+    const indexFormatsError = validateIndexFormats(searchParams)
+    if (indexFormatsError) return indexFormatsError
+
+    const options = copyOptions(searchParams, env, policy)
+    if (body != null) {
+      return await copyBatch(body, policy, env, options)
+    }
+
+    const req = parseCopyRequest(searchParams, policy, env)
+    if (req.error) return req.error
+    return await copyRequest(req.ok, env, options)
   } catch (err: any) {
-    console.error(err)
+    log.error('copy request failed', err)
     return errorResponse(err.message, 500)
   }
 }
 
-export const copy = async (src: ShardObjectID, dest: ObjectID, indexDest: ObjectID, linkDest: ObjectID, options?: { maxPutSize?: number }) => {
+/** Options for a copy, from the request search params and env. */
+const copyOptions = (searchParams: URLSearchParams, env: Record<string, string|undefined>, policy: SourcePolicy): CopyOptions => ({
+  cleanup: searchParams.get('cleanup') === 'true',
+  repair: searchParams.get('repair') === 'true',
+  timing: searchParams.get('timing') === 'true',
+  keys: keyLayoutFromEnv(env),
+  maxShardSize: searchParams.get('maxShardSize') ? parseInt(searchParams.get('maxShardSize') ?? '') : undefined,
+  destinations: searchParams.getAll('dest'),
+  indexFormats: searchParams.getAll('index').length ? parseIndexFormats(searchParams.getAll('index')) : indexFormatsFromEnv(env),
+  concurrency: env.PART_CONCURRENCY ? parseInt(env.PART_CONCURRENCY) : undefined,
+  maxObjectSize: policy.maxObjectSize
+})
+
+const validateMaxShardSize = (searchParams: URLSearchParams) => {
+  const value = searchParams.get('maxShardSize')
+  if (value != null && !/^[1-9]\d*$/.test(value)) {
+    return invalidParameter('maxShardSize', 'Invalid "maxShardSize" search parameter, must be a positive integer')
+  }
+}
+
+/** Check each `dest` search param names a destination in env. */
+const validateDestinations = (searchParams: URLSearchParams, env: Record<string, string|undefined>) => {
+  const names = destinationNames(env)
+  const unknown = searchParams.getAll('dest').find(name => !names.includes(name))
+  if (unknown != null) return invalidParameter('dest', `Unknown destination "${unknown}"`)
+}
+
+/** Check each `index` search param names an index format. */
+const validateIndexFormats = (searchParams: URLSearchParams) => {
+  const unknown = searchParams.getAll('index').find(name => !INDEX_FORMATS.some(format => format === name))
+  if (unknown != null) return invalidParameter('index', `Unknown index format "${unknown}"`)
+}
+
+const jobContext = (env: Record<string, string|undefined>): JobContext => {
+  const region = mustGetEnv(env, 'AWS_REGION')
+  return {
+    jobs: createDynamoJobStore({ region, tableName: mustGetEnv(env, 'JOBS_TABLE') }),
+    queue: createSQSJobQueue({ region, queueURL: mustGetEnv(env, 'JOBS_QUEUE_URL') })
+  }
+}
+
+/** Search params that sign a request, which are not stored with a job. */
+const SIGNATURE_PARAMS = ['expires', 'nonce', 'signature']
+
+/**
+ * Validate a copy request and queue it as a job. Responds with the job, which
+ * has status `queued`.
+ */
+const submitJob = async (searchParams: URLSearchParams, policy: SourcePolicy, env: Record<string, string|undefined>, context: JobContext) => {
+  const req = parseCopyRequest(searchParams, policy, env)
+  if (req.error) return req.error
+  const maxShardSizeError = validateMaxShardSize(searchParams)
+  if (maxShardSizeError) return maxShardSizeError
+  const destinationsError = validateDestinations(searchParams, env)
+  if (destinationsError) return destinationsError
+  const indexFormatsError = validateIndexFormats(searchParams)
+  if (indexFormatsError) return indexFormatsError
+
+  const params = new URLSearchParams([...searchParams].filter(([k]) => k !== 'async' && !SIGNATURE_PARAMS.includes(k)))
+  const job = createJob(crypto.randomUUID(), params.toString())
+  await context.jobs.put(job)
+  await context.queue.send(job.id)
+  log.info('queued job', { jobId: job.id, src: objectName(req.ok.src) })
+  return { statusCode: 202, body: JSON.stringify({ ok: true, ...job }) }
+}
+
+const getJob = async (id: string, context: JobContext) => {
+  const job = await context.jobs.get(id)
+  if (!job) return errorResponse('Job not found', 404)
+  return { statusCode: 200, body: JSON.stringify({ ok: true, ...job }) }
+}
+
+/**
+ * Run copy jobs from the job queue. A job that fails with a server error is
+ * returned to the queue to be retried, until it has been attempted
+ * `JOB_MAX_ATTEMPTS` times, after which the message goes to the dead letter
+ * queue and the job is marked `failed`. A job whose last attempt times out is
+ * marked `failed` by the dead letter handler.
+ */
+export const _jobHandler = async (event: SQSEvent, env: Record<string, string|undefined>, context?: JobContext) => {
+  const ctx = context ?? jobContext(env)
+  const maxAttempts = env.JOB_MAX_ATTEMPTS ? parseInt(env.JOB_MAX_ATTEMPTS) : JOB_MAX_ATTEMPTS
+  for (const record of event.Records) {
+    const { id }: JobMessage = JSON.parse(record.body)
+    const attempt = parseInt(record.attributes.ApproximateReceiveCount)
+    await withLogContext({ jobId: id, attempt }, () => runJob(id, env, ctx, { lastAttempt: attempt >= maxAttempts }))
+  }
+}
+
+const runJob = async (id: string, env: Record<string, string|undefined>, context: JobContext, options: { lastAttempt: boolean }) => {
+  const job = await context.jobs.get(id)
+  if (!job) return log.warn('job not found')
+  if (job.status === 'done' || job.status === 'failed') return log.warn(`job already ${job.status}`)
+
+  log.info('running job')
+  await context.jobs.update(id, { status: 'running', error: undefined })
+
+  let progress: Promise<unknown> = Promise.resolve()
+  let lastProgress = 0
+  const onProgress = (bytes: number) => {
+    if (Date.now() - lastProgress < JOB_PROGRESS_INTERVAL) return
+    lastProgress = Date.now()
+    progress = progress.then(() => context.jobs.update(id, { bytes })).catch(err => log.warn('failed to update job progress', err))
+  }
+
+  let res
   try {
-    console.log(`HeadObject ${dest.region}/${dest.bucket}/${dest.key}`)
-    await s3Client(dest).send(new HeadObjectCommand({ Bucket: dest.bucket, Key: dest.key }))
-    return { statusCode: 200, body: JSON.stringify({ ok: true }) } // already exists 🙌
+    const searchParams = new URLSearchParams(job.request)
+    const policy = sourcePolicyFromEnv(env)
+    const req = parseCopyRequest(searchParams, policy, env)
+    res = req.error ?? await copyRequest(req.ok, env, { ...copyOptions(searchParams, env, policy), onProgress })
   } catch (err: any) {
-    if (err.$metadata?.httpStatusCode !== 404) {
-      console.error(err)
-      return errorResponse('Failed to determine if object exists at destination', 500)
-    }
-  }
-
-  console.log(`GetObject ${src.region}/${src.bucket}/${src.key}`)
-  const getCmd = new GetObjectCommand({ Bucket: src.bucket, Key: src.key })
-  const getRes = await s3Client(src).send(getCmd)
-  if (!getRes.Body) return errorResponse('Object not found', 404)
-  if (!getRes.ContentLength) return errorResponse('Object has no size', 404)
-
-  const [srcReadable0, srcReadable1] = getRes.Body.transformToWebStream().tee()
-  await Promise.all([
-    writeCAR({
-      ...src,
-      size: getRes.ContentLength,
-      body: srcReadable0
-    }, dest, options),
-    writeCARIndex({
-      ...src,
-      size: getRes.ContentLength,
-      body: srcReadable1
-    }, indexDest),
-    s3Client(linkDest).send(new PutObjectCommand({
-      Bucket: linkDest.bucket,
-      Key: linkDest.key,
-      Body: new Uint8Array()
-    }))
-  ])
-
-  return { statusCode: 200, body: JSON.stringify({ ok: true }) }
-}
-
-const writeCAR = async (src: ShardSource, dest: ObjectID, options?: { maxPutSize?: number }) => {
+    log.error('job failed', err)
+    res = errorResponse(err.message, 500)
+  }
+  await progress
+
+  const { ok, error, ...result } = JSON.parse(res.body)
+  if (ok) {
+    log.info('job done')
+    return await context.jobs.update(id, { status: 'done', result })
+  }
+  if (res.statusCode >= 500 && !options.lastAttempt) {
+    await context.jobs.update(id, { status: 'queued', error })
+    throw new Error(`job ${id} failed, will retry: ${error}`)
+  }
+  log.info('job failed', { error })
+  await context.jobs.update(id, { status: 'failed', error, result })
+  // fail the message so that it goes to the dead letter queue
+  if (res.statusCode >= 500) throw new Error(`job ${id} failed: ${error}`)
+}
+
+/**
+ * Mark the jobs of messages in the dead letter queue `failed`. Jobs that
+ * failed their last attempt are already, but one whose last attempt timed out
+ * or crashed the lambda would otherwise stay `running` (or `queued`) forever.
+ */
+export const _deadLetterHandler = async (event: SQSEvent, env: Record<string, string|undefined>, context?: Pick<JobContext, 'jobs'>) => {
+  const jobs = context?.jobs ?? createDynamoJobStore({ region: mustGetEnv(env, 'AWS_REGION'), tableName: mustGetEnv(env, 'JOBS_TABLE') })
+  for (const record of event.Records) {
+    const { id }: JobMessage = JSON.parse(record.body)
+    await withLogContext({ jobId: id }, async () => {
+      const job = await jobs.get(id)
+      if (!job) return log.warn('job not found')
+      if (job.status === 'done' || job.status === 'failed') return
+      const error = `job did not complete in ${record.attributes.ApproximateReceiveCount} attempts${job.error ? `: ${job.error}` : ''}`
+      log.info('job failed', { error })
+      await jobs.update(id, { status: 'failed', error })
+    })
+  }
+}
+
+/** An item in a batch copy request, in the format output by the `hash` CLI command. */
+interface BatchItem {
+  region: string
+  bucket: string
+  key: string
+  cid: { '/': string }
+  root?: { '/': string }
+  piece?: { '/': string }
+  /** `car` if not set. */
+  kind?: string
+}
+
+/**
+ * Copy a batch of shards with `BATCH_CONCURRENCY` copies at a time. Responds
+ * with a line of newline delimited JSON for each item, in the same order as
+ * the request, in the format output by the `copy` CLI command.
+ */
+const copyBatch = async (body: string, policy: SourcePolicy, env: Record<string, string|undefined>, options: CopyOptions) => {
+  const lines = body.split('\n').filter(l => l.trim())
+  const maxBatchSize = env.MAX_BATCH_SIZE ? parseInt(env.MAX_BATCH_SIZE) : MAX_BATCH_SIZE
+  if (lines.length > maxBatchSize) {
+    return validationError(`Batch of ${lines.length} items exceeds maximum of ${maxBatchSize}`, 'BATCH_TOO_LARGE', 413)
+  }
+  const batchConcurrency = env.BATCH_CONCURRENCY ? parseInt(env.BATCH_CONCURRENCY) : BATCH_CONCURRENCY
+
+  const results = await mapConcurrent(lines, batchConcurrency, async line => {
+    let item: Partial<BatchItem>
+    try {
+      item = JSON.parse(line)
+    } catch (err: any) {
+      return { error: `invalid batch item: ${err.message}` }
+    }
+    const { region, bucket, key, cid, root, piece, kind } = item
+    const result = { region, bucket, key, cid, ...(root ? { root } : {}), ...(piece ? { piece } : {}), ...(kind ? { kind } : {}) }
+    try {
+      const params = new URLSearchParams()
+      if (region) params.set('region', region)
+      if (bucket) params.set('bucket', bucket)
+      if (key) params.set('key', key)
+      if (cid) params.set('shard', cid['/'])
+      if (root) params.set('root', root['/'])
+      if (piece) params.set('piece', piece['/'])
+      if (kind) params.set('kind', kind)
+
+      const req = parseCopyRequest(params, policy, env)
+      const res = req.error ?? await copyRequest(req.ok, env, options)
+      const { ok, ...rest } = JSON.parse(res.body)
+      return { ...result, ...rest }
+    } catch (err: any) {
+      log.error('batch item failed', err, { shard: cid?.['/'] })
+      return { ...result, error: err.message }
+    }
+  })
+
+  return {
+    statusCode: 200,
+    headers: { 'Content-Type': 'application/x-ndjson' },
+    body: results.map(r => JSON.stringify(r)).join('\n') + '\n'
+  }
+}
+
+/** A validated request to copy a CAR shard or a blob. */
+type CopyRequest =
+  | { kind: 'car', src: ShardObjectID, roots?: UnknownLink[], piece?: UnknownLink }
+  | { kind: 'blob', src: BlobObjectID, piece?: UnknownLink }
+
+/**
+ * Parse and validate the search params for copying a single shard, or with
+ * `kind=blob`, a single blob, from the source store selected by `env`.
+ */
+const parseCopyRequest = (searchParams: URLSearchParams, policy: SourcePolicy, env: Record<string, string|undefined>): ValidationResult<CopyRequest> => {
+  const kind = validateKind(searchParams)
+  if (kind.error) return kind
+  const source = validateSource(searchParams, policy, kind.ok)
+  if (source.error) return source
+  const { region, bucket, key } = source.ok
+  const store = createSourceStore(region, bucket, env)
+
+  const piecestr = searchParams.get('piece')
+  const piece: UnknownLink|undefined = piecestr ? Link.parse(piecestr) : undefined
+  if (piece && piece.multihash.code !== PIECE_MULTIHASH_CODE) return { error: invalidParameter('piece', 'Not a piece CID') }
+
+  const shardstr = searchParams.get('shard')
+  if (!shardstr) return { error: missingParameter('shard') }
+
+  if (kind.ok === 'blob') {
+    const blob = parseBlobLink(shardstr)
+    if (!blob) return { error: invalidParameter('shard', 'Not a raw CID or multihash of a SHA-256 hash') }
+    return { ok: { kind: 'blob', src: { store, key, cid: blob }, piece } }
+  }
+
+  const shard: ShardLink = Link.parse(shardstr)
+  if (shard.code !== CAR_CODEC) return { error: invalidParameter('shard', 'Not a CAR file hash') }
+
+  const rootstrs = searchParams.getAll('root')
+  const roots: UnknownLink[]|undefined = rootstrs.length ? rootstrs.map(r => Link.parse(r).toV1()) : undefined
+
+  return { ok: { kind: 'car', src: { store, key, cid: shard }, roots, piece } }
+}
+
+/**
+ * Parse a blob identifier: a raw CID, or a base58btc encoded multihash. The
+ * hash must be SHA-256, as it is checked with S3 SHA-256 checksums.
+ */
+const parseBlobLink = (str: string) => {
+  let digest
+  try {
+    const link = Link.parse(str)
+    if (link.code !== raw.code) return
+    digest = link.multihash
+  } catch {
+    try {
+      digest = Digest.decode(base58btc.decode(str))
+    } catch {
+      return
+    }
+  }
+  if (digest.code !== sha256.code) return
+  return Link.create<Uint8Array, typeof raw.code, typeof sha256.code>(raw.code, Digest.create(sha256.code, digest.digest))
+}
+
+/**
+ * Copy a shard or blob to its destinations in env. With more than one
+ * destination configured, the response has the outcome for each.
+ */
+const copyRequest = async (req: CopyRequest, env: Record<string, string|undefined>, options: CopyOptions) => {
+  const keys = options.keys ?? defaultKeyLayout
+  const destinations = destinationsFromEnv(env, options.destinations)
+  const { cid } = req.src
+  const responses = req.kind === 'blob'
+    ? await replicateBlob(req.src, destinations.map(d => ({ name: d.name, dest: { store: d.carpark, key: keys.blob(cid) } })), { ...options, piece: req.piece })
+    : await replicate(req.src, destinations.map(d => ({
+      name: d.name,
+      dest: { store: d.carpark, key: keys.carpark(cid) },
+      indexDest: { store: d.satnav, key: keys.satnav(cid) },
+      linkDest: d.dudewhere
+    })), { ...options, roots: req.roots, piece: req.piece })
+  if (destinationNames(env).length === 1) return responses[0]
+  return destinationsResponse(destinations, responses)
+}
+
+/**
+ * Combine the responses for each destination. The response is only ok if the
+ * copy to every destination was, and otherwise has the highest status code, so
+ * that it is retried. A retry skips the destinations that were copied.
+ */
+const destinationsResponse = (destinations: Array<{ name: string }>, responses: CopyResponse[]): CopyResponse => {
+  const results = Object.fromEntries(destinations.map((d, i) => [d.name, JSON.parse(responses[i].body)]))
+  const failed = Object.entries(results).filter(([, r]) => !r.ok)
+  return {
+    statusCode: Math.max(...responses.map(r => r.statusCode)),
+    body: JSON.stringify({
+      ok: !failed.length,
+      ...(failed.length ? { error: failed.map(([name, r]) => `${name}: ${r.error}`).join(', ') } : {}),
+      destinations: results
+    })
+  }
+}
+
+export const copy = async (src: ShardObjectID, dest: ObjectID, indexDest: ObjectID, linkDest: Store, options?: CopyOptions) => {
+  const [res] = await replicate(src, [{ name: DEFAULT_DESTINATION, dest, indexDest, linkDest }], options)
+  return res
+}
+
+/**
+ * Copy a shard to each of the targets, responding for each target in order.
+ * The source is read once for all the targets that need the CAR or index
+ * written, and each target is committed or rolled back on its own, so a copy
+ * that failed for some targets can be retried and skips the others.
+ */
+export const replicate = (src: ShardObjectID, targets: ShardTarget[], options?: CopyOptions) =>
+  withLogContext({ shard: src.cid.toString() }, () => replicateShard(src, targets, options))
+
+const replicateShard = async (src: ShardObjectID, targets: ShardTarget[], options?: CopyOptions) => {
+  const responses = new Map<ShardTarget, CopyResponse>()
+  const writes: ShardWrite[] = []
+  let missing: ShardTarget[] = []
+
+  await Promise.all(targets.map(target => withTarget(target, async () => {
+    let carHead
+    try {
+      carHead = await headObject(target.dest, { checksum: options?.repair })
+    } catch (err: any) {
+      log.error('failed to determine if object exists at destination', err)
+      responses.set(target, errorResponse('Failed to determine if object exists at destination', 500))
+      return
+    }
+
+    if (!carHead) {
+      missing.push(target)
+      return
+    }
+    if (!options?.repair) {
+      putMetric('SkippedExisting', 1, 'Count')
+      responses.set(target, { statusCode: 200, body: JSON.stringify({ ok: true, car: 'skipped' }) }) // already exists 🙌
+      return
+    }
+
+    let plan: ShardWritePlan
+    let roots: UnknownLink[]
+    try {
+      ({ plan, roots } = await planRepair(src, carHead, target.indexDest, target.linkDest, options))
+    } catch (err: any) {
+      log.error('failed to determine if artifacts need repair', err)
+      responses.set(target, errorResponse('Failed to determine if artifacts need repair', 500))
+      return
+    }
+    if (Object.values(plan).every(s => s === 'skipped')) {
+      putMetric('SkippedExisting', 1, 'Count')
+      responses.set(target, { statusCode: 200, body: JSON.stringify({ ok: true, ...plan, roots: roots.map(encodeLink) }) })
+      return
+    }
+    writes.push({ target, plan, roots })
+  })))
+
+  if (missing.length && options?.maxShardSize) {
+    let srcHead
+    try {
+      srcHead = await headObject(src)
+    } catch (err: any) {
+      log.error('failed to determine source size', err)
+      for (const target of missing) responses.set(target, errorResponse('Failed to determine source size', 500))
+      missing = []
+    }
+    if (srcHead && srcHead.size > options.maxShardSize) {
+      const resharded = await reshard(src, missing, { ...options, maxShardSize: options.maxShardSize })
+      missing.forEach((target, i) => responses.set(target, resharded[i]))
+      missing = []
+    }
+  }
+
+  writes.push(...missing.map(target => ({ target, plan: CREATE_PLAN })))
+  if (writes.length) {
+    const written = await writeShards(src, writes, options)
+    writes.forEach(({ target }, i) => responses.set(target, written[i]))
+  }
+  return targets.map(target => responses.get(target) ?? errorResponse('Shard was not copied', 500))
+}
+
+/**
+ * Write the artifacts of a shard that are not `skipped` in the plan of each
+ * write, responding for each write in order. The source is read once: it is
+ * teed to the index builder and to each target the CAR is put to, or if the
+ * CAR is uploaded in parts, each part is read once and uploaded to every
+ * target, and the parts are teed instead. Nothing is written to the index or
+ * link destinations of a target until its CAR has been verified.
+ *
+ * A link is written for each of the write's roots, or if not set, for each
+ * root in the CAR header. Note: roots must be set if the index is skipped.
+ */
+const writeShards = async (src: ShardObjectID, writes: ShardWrite[], options?: CopyOptions): Promise<CopyResponse[]> => {
+  const responses: Array<CopyResponse|undefined> = writes.map(() => undefined)
+  const carPromises: Array<Promise<unknown>> = writes.map(() => Promise.resolve())
+  const timings: StageTiming[] = writes.map(() => ({}))
+  const indexTiming: StageTiming = {}
+  let buildIndexPromise: Promise<CARIndex|undefined> = Promise.resolve(undefined)
+  let carSize = 0
+
+  if (writes.some(w => w.plan.car !== 'skipped' || w.plan.index !== 'skipped')) {
+    log.info('GetObject', { src: objectName(src) })
+    const getRes = await src.store.get(src.key)
+    if (!getRes) return writes.map(() => errorResponse('Object not found', 404))
+    if (!getRes.size) {
+      getRes.body.cancel()
+      return writes.map(() => errorResponse('Object has no size', 404))
+    }
+
+    const { size, body } = getRes
+    const sizeValidation = validateObjectSize(size, options ?? {})
+    if (sizeValidation.error) {
+      body.cancel()
+      return writes.map(() => sizeValidation.error)
+    }
+    carSize = size
+    const maxPutSize = options?.maxPutSize ?? MAX_PUT_SIZE
+    const puts: number[] = []
+    const uploads: Array<{ i: number, resume?: ResumableUpload }> = []
+    await Promise.all(writes.map((w, i) => withTarget(w.target, async () => {
+      if (w.plan.car === 'skipped') return
+      if (size < maxPutSize || !w.target.dest.store.multipart) return puts.push(i)
+      try {
+        uploads.push({ i, resume: await findResumableUpload(w.target.dest, options) })
+      } catch (err: any) {
+        log.error('failed to determine if upload can be resumed', err)
+        responses[i] = errorResponse('Failed to determine if upload can be resumed', 500)
+      }
+    })))
+
+    // the object stream is only needed for puts, to build the index and to
+    // check the piece CID. Multipart uploads read byte ranges from the source,
+    // which make up the stream instead, unless they resume after the first.
+    const buildIndex = writes.some((w, i) => !responses[i] && w.plan.index !== 'skipped')
+    const { source, parts } = partsStream(body, size, uploads.map(u => u.resume), options, puts.length > 0 || buildIndex || Boolean(options?.piece))
+    const piece = options?.piece && (puts.length || uploads.length) ? checkPiece(source, options.piece) : undefined
+    // with nothing else to read it, the source is drained to check the piece CID
+    const drain = Boolean(piece) && !puts.length && !buildIndex
+    const readables = teeStream(piece?.body ?? source, puts.length + (buildIndex || drain ? 1 : 0))
+    const indexReadable = buildIndex ? readables.pop() : undefined
+    if (drain) readables.pop()?.pipeTo(new WritableStream()).catch(() => {})
+
+    // progress is reported for one of the CARs being written
+    let onProgress = options?.onProgress
+    for (const [j, i] of puts.entries()) {
+      const { target } = writes[i]
+      let carReadable = readables[j]
+      if (onProgress) carReadable = carReadable.pipeThrough(progressStream(onProgress))
+      onProgress = undefined
+      const meta = carObjectMetadata(src, writeOptions(writes[i], options))
+      carPromises[i] = withTarget(target, () => timed('car', writeObject({ ...src, size, body: carReadable }, target.dest, meta), timings[i]))
+    }
+    if (uploads.length) {
+      const written = writeObjectMultipart({ ...src, size }, uploads.map(({ i, resume }) => ({
+        target: writes[i].target,
+        dest: writes[i].target.dest,
+        meta: carObjectMetadata(src, writeOptions(writes[i], options)),
+        resume
+      })), { ...options, onProgress, body: parts, verified: piece?.verified })
+      for (const [j, { i }] of uploads.entries()) {
+        carPromises[i] = timed('car', written[j], timings[i])
+      }
+    }
+
+    if (indexReadable) {
+      buildIndexPromise = timed('index', buildCARIndex({ ...src, size, body: indexReadable }, options?.indexFormats ?? DEFAULT_INDEX_FORMATS), indexTiming)
+    }
+  }
+
+  const carResults = Promise.allSettled(carPromises)
+  const [indexResult] = await Promise.allSettled([buildIndexPromise])
+  try {
+    return await Promise.all((await carResults).map((carResult, i) => responses[i] ?? withTarget(writes[i].target, async () => {
+      const { target, plan } = writes[i]
+      const timing = timings[i]
+      if (plan.index !== 'skipped' && indexTiming.index != null) timing.index = indexTiming.index
+      // the index is only written to targets that need it
+      const targetIndexResult: PromiseSettledResult<CARIndex|undefined> = plan.index === 'skipped' ? { status: 'fulfilled', value: undefined } : indexResult
+      try {
+        const res = await commitShard(src, target, plan, carResult, targetIndexResult, timing, writeOptions(writes[i], options))
+        if (res.statusCode === 200 && plan.car !== 'skipped') putMetric('BytesCopied', carSize, 'Bytes')
+        return res
+      } finally {
+        for (const [stage, ms] of Object.entries(timing)) {
+          putMetric('StageDuration', ms, 'Milliseconds', { Stage: stage })
+        }
+      }
+    })))
+  } finally {
+    if (indexResult.status === 'fulfilled') await indexResult.value?.index?.close()
+  }
+}
+
+/** Options for a write, with the roots it was planned with. */
+const writeOptions = (write: ShardWrite, options?: CopyOptions): CopyOptions => ({ ...options, roots: write.roots ?? options?.roots })
+
+/** Milliseconds spent in each stage of a copy. */
+type StageTiming = Partial<Record<CopyStage, number>>
+
+/** Add the time until the promise settles to the stage's time. */
+const timed = <T>(stage: CopyStage, promise: Promise<T>, timing: StageTiming) => {
+  const elapsed = startTimer()
+  return promise.finally(() => {
+    timing[stage] = (timing[stage] ?? 0) + elapsed()
+  })
+}
+
+/** Run `fn` with the name of the target's destination in the log context. */
+const withTarget = <T>(target: { name: string }, fn: () => T) =>
+  withLogContext({ destination: target.name }, fn)
+
+/**
+ * The stream of the source to read: the object `body`, or if it is `needed`
+ * and multipart uploads read every part of the source, a stream of the parts,
+ * to write them to. The object body is then cancelled.
+ */
+const partsStream = (body: ReadableStream<Uint8Array>, size: number, resumes: Array<ResumableUpload|undefined>, options: { partSize?: number }|undefined, needed: boolean) => {
+  if (!needed || !resumes.length || multipartParts(size, resumes, options).first !== 0) return { source: body }
+  body.cancel()
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>()
+  return { source: readable, parts: writable }
+}
+
+/** Split a stream into `n` streams that each read all of it, or cancel it if `n` is 0. */
+const teeStream = (stream: ReadableStream<Uint8Array>, n: number) => {
+  if (!n) {
+    stream.cancel()
+    return []
+  }
+  const streams: Array<ReadableStream<Uint8Array>> = []
+  let rest = stream
+  for (let i = 1; i < n; i++) {
+    const [branch, next] = rest.tee()
+    streams.push(branch)
+    rest = next
+  }
+  streams.push(rest)
+  return streams
+}
+
+/**
+ * Write the index, in each format, and links of a shard to a target, once the
+ * CAR has been written, and roll back if any write fails. Only objects created
+ * by the copy are rolled back: in repair mode, objects that already existed
+ * are overwritten, or for links, left as they are.
+ */
+const commitShard = async (
+  src: ShardObjectID,
+  target: ShardTarget,
+  plan: ShardWritePlan,
+  carResult: PromiseSettledResult<unknown>,
+  indexResult: PromiseSettledResult<CARIndex|undefined>,
+  timing: StageTiming,
+  options?: CopyOptions
+) => {
+  const { dest, indexDest, linkDest } = target
+  const rollback: Rollback = []
+  if (carResult.status === 'rejected') {
+    return abortCopy('car', carResult.reason, rollback)
+  }
+  if (plan.car === 'created') {
+    rollback.push(() => deleteObject(dest))
+  }
+
+  if (indexResult.status === 'rejected') {
+    return abortCopy('index', indexResult.reason, rollback)
+  }
+  if (indexResult.value) {
+    for (const format of options?.indexFormats ?? DEFAULT_INDEX_FORMATS) {
+      const obj = indexObject(indexDest, format)
+      let existed
+      try {
+        existed = options?.repair && await headObject(obj)
+        await timed('index', writeIndex(src, indexResult.value, format, obj, options), timing)
+      } catch (err) {
+        return abortCopy('index', err, rollback)
+      }
+      if (!existed) rollback.push(() => deleteObject(obj))
+    }
+  }
+
+  const roots = options?.roots ?? indexResult.value?.roots
+  if (!roots) return abortCopy('link', new Error('unknown DAG roots'), rollback)
+
+  const link = options?.links === false ? 'skipped' : plan.link
+  if (link !== 'skipped') {
+    const elapsed = startTimer()
+    for (const root of roots) {
+      const link = { store: linkDest, key: (options?.keys ?? defaultKeyLayout).dudewhere(root, src.cid) }
+      try {
+        if (options?.repair && await headObject(link)) continue
+        log.info('PutObject', { dest: objectName(link) })
+        await link.store.put(link.key, new Uint8Array())
+      } catch (err) {
+        return abortCopy('link', err, rollback)
+      }
+      rollback.push(() => deleteObject(link))
+    }
+    timing.link = elapsed()
+  }
+
+  return { statusCode: 200, body: JSON.stringify({ ok: true, ...plan, link, roots: roots.map(encodeLink), ...(options?.timing ? { timing } : {}) }) }
+}
+
+/**
+ * Copy a CAR larger than `maxShardSize` as several CARs under the limit. The
+ * source blocks are written to CARs in a temporary directory, in order, and
+ * each CAR is copied as a shard in its own right, with its own carpark object,
+ * satnav index and dudewhere links from the DAG roots. The source is checked
+ * against its CID once it has all been read, and the shards created by the
+ * copy are removed if it does not match. The links of the new CARs are only
+ * written once the source has been checked, so that no DAG is linked to a CAR
+ * that did not come from the source.
+ *
+ * CARs are split at the same blocks every time, so a retry skips the shards
+ * that were already copied. A target that a CAR fails to copy to is rolled
+ * back, and the rest of the CARs are only copied to the other targets.
+ */
+const reshard = async (src: ShardObjectID, targets: ShardTarget[], options: CopyOptions & { maxShardSize: number }): Promise<CopyResponse[]> => {
+  log.info('GetObject', { src: objectName(src) })
+  const getRes = await src.store.get(src.key)
+  if (!getRes) return targets.map(() => errorResponse('Object not found', 404))
+  const sizeValidation = validateObjectSize(getRes.size, options)
+  if (sizeValidation.error) {
+    getRes.body.cancel()
+    return targets.map(() => sizeValidation.error)
+  }
+
+  const keys = options.keys ?? defaultKeyLayout
+  // the piece CID is of the source CAR, so it is not stored on the new shards
+  const shardOptions: CopyOptions = { ...options, maxShardSize: undefined, piece: undefined, onProgress: undefined, timing: false, links: false }
+  let body = getRes.body
+  if (options.onProgress) body = body.pipeThrough(progressStream(options.onProgress))
+
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'reshard-'))
+  const tmp = createFSStore(dir)
+  const rollbacks = new Map<ShardTarget, Rollback>(targets.map(target => [target, []]))
+  const failed = new Map<ShardTarget, CopyResponse>()
+  const abort = (stage: CopyStage, err: unknown) => Promise.all(targets.map(target =>
+    failed.get(target) ?? withTarget(target, () => abortCopy(stage, err, rollbacks.get(target) ?? []))))
+  const elapsed = startTimer()
+  try {
+    let result: SplitResult
+    try {
+      result = await splitCAR(body, tmp, {
+        maxShardSize: options.maxShardSize,
+        onShard: async shard => {
+          const live = targets.filter(target => !failed.has(target))
+          const shardTargets = live.map(target => ({
+            name: target.name,
+            dest: { store: target.dest.store, key: keys.carpark(shard.cid) },
+            indexDest: { store: target.indexDest.store, key: keys.satnav(shard.cid) },
+            linkDest: target.linkDest
+          }))
+          const responses = await replicate({ store: tmp, key: shard.key, cid: shard.cid }, shardTargets, shardOptions)
+          await tmp.delete(shard.key)
+          for (const [i, res] of responses.entries()) {
+            const target = live[i]
+            const shardTarget = shardTargets[i]
+            const rollback = rollbacks.get(target) ?? []
+            const { error, stage, car } = JSON.parse(res.body)
+            if (res.statusCode !== 200) {
+              failed.set(target, await withTarget(target, () => abortCopy(stage ?? 'car', new Error(`failed to copy shard ${shard.cid}: ${error}`), rollback)))
+              continue
+            }
+            if (car === 'created') {
+              rollback.push(() => deleteObject(shardTarget.dest))
+              for (const format of options.indexFormats ?? DEFAULT_INDEX_FORMATS) {
+                rollback.push(() => deleteObject(indexObject(shardTarget.indexDest, format)))
+              }
+            }
+          }
+          if (failed.size === targets.length) throw new Error(`failed to copy shard ${shard.cid}`)
+        }
+      })
+    } catch (err: any) {
+      return await abort(err.stage ?? 'car', err)
+    }
+
+    if (!equals(result.digest, src.cid.multihash.digest)) {
+      putMetric('IntegrityFailures', 1, 'Count')
+      return await abort('car', new Error('integrity check failed'))
+    }
+
+    const roots = options.roots ?? result.roots.map(r => r.toV1())
+    await Promise.all(targets.filter(target => !failed.has(target)).map(target => withTarget(target, async () => {
+      const rollback = rollbacks.get(target) ?? []
+      try {
+        for (const shard of result.shards) {
+          for (const root of roots) {
+            const link = { store: target.linkDest, key: keys.dudewhere(root, shard.cid) }
+            if (await headObject(link)) continue
+            log.info('PutObject', { dest: objectName(link) })
+            await link.store.put(link.key, new Uint8Array())
+            rollback.push(() => deleteObject(link))
+          }
+        }
+      } catch (err) {
+        failed.set(target, await abortCopy('link', err, rollback))
+      }
+    })))
+
+    const res = {
+      statusCode: 200,
+      body: JSON.stringify({
+        ok: true,
+        shards: result.shards.map(s => encodeLink(s.cid)),
+        roots: roots.map(encodeLink),
+        ...(options.timing ? { timing: { reshard: elapsed() } } : {})
+      })
+    }
+    return targets.map(target => failed.get(target) ?? res)
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true })
+  }
+}
+
+export const copyBlob = async (src: BlobObjectID, dest: ObjectID, options?: CopyOptions) => {
+  const [res] = await replicateBlob(src, [{ name: DEFAULT_DESTINATION, dest }], options)
+  return res
+}
+
+/**
+ * Copy a blob to each of the targets with the same integrity checks as a CAR,
+ * responding for each target in order. A blob has no index or links, so only
+ * the object itself is written, or with `repair`, rewritten if its size or
+ * checksum does not match the source. The source is read once for all the
+ * targets it is put or uploaded to.
+ */
+export const replicateBlob = (src: BlobObjectID, targets: BlobTarget[], options?: CopyOptions) =>
+  withLogContext({ blob: src.cid.toString() }, () => replicateBlobObject(src, targets, options))
+
+const replicateBlobObject = async (src: BlobObjectID, targets: BlobTarget[], options?: CopyOptions) => {
+  const responses = new Map<BlobTarget, CopyResponse>()
+  const writes: Array<{ target: BlobTarget, blob: ArtifactStatus }> = []
+  let srcHeadPromise: Promise<ObjectHead|undefined>|undefined
+  const headSource = () => (srcHeadPromise = srcHeadPromise ?? headObject(src))
+
+  await Promise.all(targets.map(target => withTarget(target, async () => {
+    try {
+      const destHead = await headObject(target.dest, { checksum: options?.repair })
+      if (!destHead) return writes.push({ target, blob: 'created' })
+      if (options?.repair) {
+        const srcHead = await headSource()
+        if (!srcHead) return responses.set(target, errorResponse('Object not found', 404))
+        if (!isCopyValid(src, srcHead, destHead)) return writes.push({ target, blob: 'repaired' })
+      }
+      putMetric('SkippedExisting', 1, 'Count')
+      responses.set(target, { statusCode: 200, body: JSON.stringify({ ok: true, blob: 'skipped' }) }) // already exists 🙌
+    } catch (err: any) {
+      log.error('failed to determine if object exists at destination', err)
+      responses.set(target, errorResponse('Failed to determine if object exists at destination', 500))
+    }
+  })))
+
+  if (writes.length) {
+    const written = await writeBlobs(src, writes, headSource, options)
+    writes.forEach(({ target }, i) => responses.set(target, written[i]))
+  }
+  return targets.map(target => responses.get(target) ?? errorResponse('Blob was not copied', 500))
+}
+
+/**
+ * Write a blob to each target, responding for each write in order. The source
+ * is read once and teed to the targets it is put to, or if the blob is
+ * uploaded in parts, each part is read once and uploaded to every target, and
+ * the parts are teed instead.
+ */
+const writeBlobs = async (src: BlobObjectID, writes: Array<{ target: BlobTarget, blob: ArtifactStatus }>, headSource: () => Promise<ObjectHead|undefined>, options?: CopyOptions): Promise<CopyResponse[]> => {
+  let srcHead
+  try {
+    srcHead = await headSource()
+  } catch (err: any) {
+    log.error('failed to determine source size', err)
+    return writes.map(() => errorResponse('Failed to determine source size', 500))
+  }
+  if (!srcHead) return writes.map(() => errorResponse('Object not found', 404))
+  const { size } = srcHead
+  const sizeValidation = validateObjectSize(size, options ?? {})
+  if (sizeValidation.error) return writes.map(() => sizeValidation.error)
+
+  const meta = blobObjectMetadata(src, options)
   const maxPutSize = options?.maxPutSize ?? MAX_PUT_SIZE
+  const responses: Array<CopyResponse|undefined> = writes.map(() => undefined)
+  const puts: number[] = []
+  const uploads: Array<{ i: number, resume?: ResumableUpload }> = []
+  await Promise.all(writes.map(({ target }, i) => withTarget(target, async () => {
+    if (size < maxPutSize || !target.dest.store.multipart) return puts.push(i)
+    try {
+      uploads.push({ i, resume: await findResumableUpload(target.dest, options) })
+    } catch (err: any) {
+      log.error('failed to determine if upload can be resumed', err)
+      responses[i] = errorResponse('Failed to determine if upload can be resumed', 500)
+    }
+  })))
+
+  const writePromises: Array<Promise<unknown>> = writes.map(() => Promise.resolve())
+  const timings: StageTiming[] = writes.map(() => ({}))
+  // progress is reported for one of the writes
+  let onProgress = options?.onProgress
+  let piece: PieceCheck|undefined
+  // the source is read to put it, and to check its piece CID for uploads.
+  // Multipart uploads read byte ranges from the source, which make up the
+  // stream instead, unless they resume after the first.
+  let parts: WritableStream<Uint8Array>|undefined
+  if (puts.length || (options?.piece && uploads.length)) {
+    let source: ReadableStream<Uint8Array>|undefined
+    if (uploads.length && multipartParts(size, uploads.map(u => u.resume), options).first === 0) {
+      const stream = new TransformStream<Uint8Array, Uint8Array>()
+      source = stream.readable
+      parts = stream.writable
+    } else {
+      log.info('GetObject', { src: objectName(src) })
+      source = (await src.store.get(src.key))?.body
+    }
+    if (!source) {
+      for (const i of [...puts, ...uploads.map(u => u.i)]) responses[i] = errorResponse('Object not found', 404)
+    } else {
+      piece = options?.piece ? checkPiece(source, options.piece) : undefined
+      const body = piece?.body ?? source
+      // with no puts to read it, the source is drained to check the piece CID
+      if (!puts.length) body.pipeTo(new WritableStream()).catch(() => {})
+      const readables = puts.length ? teeStream(body, puts.length) : []
+      for (const [j, i] of puts.entries()) {
+        const { target } = writes[i]
+        let body = readables[j]
+        if (onProgress) body = body.pipeThrough(progressStream(onProgress))
+        onProgress = undefined
+        writePromises[i] = withTarget(target, () => timed('blob', writeObject({ ...src, size, body }, target.dest, meta), timings[i]))
+      }
+    }
+  }
+  const multipart = uploads.filter(({ i }) => !responses[i])
+  if (multipart.length) {
+    const written = writeObjectMultipart({ ...src, size }, multipart.map(({ i, resume }) => ({ target: writes[i].target, dest: writes[i].target.dest, meta, resume })), { ...options, onProgress, body: parts, verified: piece?.verified })
+    for (const [j, { i }] of multipart.entries()) {
+      writePromises[i] = timed('blob', written[j], timings[i])
+    }
+  }
+
+  const results = await Promise.allSettled(writePromises)
+  return await Promise.all(results.map((result, i) => responses[i] ?? withTarget(writes[i].target, async () => {
+    for (const [stage, ms] of Object.entries(timings[i])) {
+      putMetric('StageDuration', ms, 'Milliseconds', { Stage: stage })
+    }
+    if (result.status === 'rejected') return abortCopy('blob', result.reason, [])
+    putMetric('BytesCopied', size, 'Bytes')
+    return { statusCode: 200, body: JSON.stringify({ ok: true, blob: writes[i].blob, ...(options?.timing ? { timing: timings[i] } : {}) }) }
+  })))
+}
+
+/** Name of an object for logs. */
+const objectName = (obj: ObjectID<ReadableStore>) => `${obj.store.name}/${obj.key}`
+
+/** Encode a link as a DAG-JSON link object. */
+const encodeLink = (link: UnknownLink) => ({ '/': link.toString() })
+
+/**
+ * Determine which artifacts of an already copied shard are missing or invalid.
+ * The CAR is invalid if its size differs from the source, or if it has a
+ * (non-composite) SHA-256 checksum that does not match the shard CID. An
+ * index is invalid if it cannot be decoded in any of its formats. A repaired
+ * CAR always gets a new index.
+ */
+const planRepair = async (src: ShardObjectID, carHead: ObjectHead, indexDest: ObjectID, linkDest: Store, options?: { roots?: UnknownLink[], keys?: KeyLayout, indexFormats?: IndexFormat[] }): Promise<{ plan: ShardWritePlan, roots: UnknownLink[] }> => {
+  const srcHead = await headObject(src)
+  if (!srcHead) throw new Error('Object not found')
+
+  const car = isCopyValid(src, srcHead, carHead) ? 'skipped' : 'repaired'
+
+  let index = await checkCARIndexes(indexDest, options?.indexFormats ?? DEFAULT_INDEX_FORMATS)
+  if (car === 'repaired' && index === 'skipped') index = 'repaired'
+
+  const roots = options?.roots ?? (await readCARHeader(src)).roots.map(r => r.toV1())
+  let link: ArtifactStatus = 'skipped'
+  for (const root of roots) {
+    if (!await headObject({ store: linkDest, key: (options?.keys ?? defaultKeyLayout).dudewhere(root, src.cid) })) {
+      link = 'created'
+      break
+    }
+  }
+
+  log.info('repair plan', { src: objectName(src), car, index, link })
+  return { plan: { car, index, link }, roots }
+}
+
+/**
+ * Check a copied object has the size of its source and, if it has a
+ * (non-composite) SHA-256 checksum, that it matches the source CID.
+ */
+const isCopyValid = (src: ContentAddressedObjectID, srcHead: ObjectHead, destHead: ObjectHead) => {
+  const checksum = base64pad.encode(src.cid.multihash.digest).slice(1)
+  return destHead.size === srcHead.size &&
+    (!destHead.checksumSHA256 || destHead.checksumSHA256.includes('-') || destHead.checksumSHA256 === checksum)
+}
+
+/**
+ * Check the existing satnav index in each format. Every format is written when
+ * the index is repaired, so the index is only skipped if every format is, and
+ * is only created if none exist.
+ */
+const checkCARIndexes = async (indexDest: ObjectID, formats: IndexFormat[]): Promise<ArtifactStatus> => {
+  const statuses = await Promise.all(formats.map(format => checkCARIndex(indexObject(indexDest, format), format)))
+  if (statuses.every(s => s === 'created')) return 'created'
+  return statuses.every(s => s === 'skipped') ? 'skipped' : 'repaired'
+}
+
+/**
+ * Check an existing satnav index can be decoded. Returns the status the index
+ * will have after repair.
+ */
+const checkCARIndex = async (dest: ObjectID, format: IndexFormat): Promise<ArtifactStatus> => {
+  log.info('GetObject', { src: objectName(dest) })
+  const res = await dest.store.get(dest.key)
+  if (!res) return 'created'
+
+  try {
+    if (format === 'sharded-dag-index') {
+      const { shards } = await decodeDAGIndex(res.body)
+      return shards.some(s => s.slices.size) ? 'skipped' : 'repaired'
+    }
+    const reader = format === 'index-sorted'
+      ? IndexSortedReader.createReader({ reader: res.body.getReader() })
+      : MultihashIndexSortedReader.createReader({ reader: res.body.getReader() })
+    let items = 0
+    while (true) {
+      const { done } = await reader.read()
+      if (done) break
+      items++
+    }
+    return items ? 'skipped' : 'repaired'
+  } catch (err) {
+    log.warn('invalid index', err, { src: objectName(dest) })
+    return 'repaired'
+  }
+}
+
+/** HEAD an object, returning `undefined` if it does not exist. */
+const headObject = async (obj: ObjectID<ReadableStore>, options?: { checksum?: boolean }) => {
+  log.info('HeadObject', { src: objectName(obj) })
+  return await obj.store.head(obj.key, options)
+}
+
+/**
+ * Undo the writes made by the stages that completed before `stage` failed, and
+ * return an error response that identifies the failed stage.
+ */
+const abortCopy = async (stage: CopyStage, err: any, rollback: Rollback) => {
+  log.error('copy failed', err, { stage })
+  for (const undo of rollback.reverse()) {
+    try {
+      await undo()
+    } catch (err) {
+      log.error('rollback failed', err, { stage })
+    }
+  }
+  return errorResponse(err?.message ?? String(err), 500, { stage })
+}
+
+const deleteObject = async (dest: ObjectID) => {
+  log.info('DeleteObject', { dest: objectName(dest) })
+  await dest.store.delete(dest.key)
+}
+
+/** Pass through a stream, calling `onProgress` with the total bytes read. */
+const progressStream = (onProgress: (bytes: number) => void) => {
+  let bytes = 0
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform (chunk, controller) {
+      bytes += chunk.length
+      onProgress(bytes)
+      controller.enqueue(chunk)
+    }
+  })
+}
+
+/** A source stream that is checked against a piece CID as it is read. */
+interface PieceCheck {
+  body: ReadableStream<Uint8Array>
+  /**
+   * Settles when the source has been read: rejected if the piece CID does not
+   * match, or if the source could not be read to the end.
+   */
+  verified: Promise<void>
+}
+
+/**
+ * Compute the piece CID of a stream as it is read, and error the stream at
+ * the end if it is not `expected`, so that puts of the stream fail. Multipart
+ * uploads do not read the stream, so they wait on `verified` instead.
+ */
+const checkPiece = (body: ReadableStream<Uint8Array>, expected: UnknownLink): PieceCheck => {
+  const hasher = PieceHasher.create()
+  const reader = body.getReader()
+  let resolve: () => void
+  let reject: (err: unknown) => void
+  const verified = new Promise<void>((res, rej) => { resolve = res; reject = rej })
+  verified.catch(() => {}) // handled by the writes that wait on it
+  return {
+    verified,
+    body: new ReadableStream({
+      async pull (controller) {
+        try {
+          const { done, value } = await reader.read()
+          if (done) {
+            const piece = Link.create(raw.code, hasher.digest())
+            if (!piece.equals(expected)) {
+              putMetric('IntegrityFailures', 1, 'Count')
+              throw new Error(`piece CID mismatch: ${piece}`)
+            }
+            resolve()
+            return controller.close()
+          }
+          hasher.write(value)
+          controller.enqueue(value)
+        } catch (err) {
+          reject(err)
+          controller.error(err)
+        }
+      },
+      async cancel (reason) {
+        reject(reason ?? new Error('source was not read'))
+        await reader.cancel(reason)
+      }
+    })
+  }
+}
+
+/**
+ * Metadata to set on the CAR object: where it was copied from, the DAG roots,
+ * if they are known before the CAR is read, and the piece CID. S3 metadata must
+ * be ASCII, so the source is URI encoded.
+ */
+const carObjectMetadata = (src: ShardObjectID, options?: { roots?: UnknownLink[], piece?: UnknownLink }): ObjectMetadata => ({
+  contentType: CAR_CONTENT_TYPE,
+  metadata: {
+    source: encodeURI(objectName(src)),
+    ...(options?.roots?.length ? { roots: options.roots.join(',') } : {}),
+    ...(options?.piece ? { piece: options.piece.toString() } : {})
+  }
+})
+
+/** Metadata to set on a blob: where it was copied from and the piece CID. */
+const blobObjectMetadata = (src: BlobObjectID, options?: { piece?: UnknownLink }): ObjectMetadata => ({
+  contentType: BLOB_CONTENT_TYPE,
+  metadata: {
+    source: encodeURI(objectName(src)),
+    ...(options?.piece ? { piece: options.piece.toString() } : {})
+  }
+})
+
+/** Metadata to set on the satnav index, in every format: where the CAR was copied from, and the CAR CID. */
+const indexMetadata = (src: ShardObjectID) => ({
+  source: encodeURI(objectName(src)),
+  shard: src.cid.toString()
+})
+
+/** Copy a CAR or blob with a single put, which fails if the SHA-256 does not match the CID. */
+const writeObject = async (src: ObjectSource, dest: ObjectID, meta: ObjectMetadata) => {
   // for small files, just do a regular put with ChecksumSHA256
-  if (src.size < maxPutSize) {
-    console.log(`PutObject ${src.region}/${src.bucket}/${src.key} => ${dest.region}/${dest.bucket}/${dest.key}`)
-    return s3Client(dest).send(new PutObjectCommand({
-      Bucket: dest.bucket,
-      Key: dest.key,
-      // @ts-expect-error
-      Body: Readable.fromWeb(src.body),
-      ContentLength: src.size,
-      ChecksumSHA256: base64pad.encode(src.cid.multihash.digest).slice(1)
-    }))
-  }
-
-  const hasher = crypto.createHash('sha256')
-  const buffer = new Uint8ArrayList()
-  const parts: CompletedPart[] = []
-  let uploadID: string
-
-  await src.body.pipeTo(new WritableStream({
-    async start () {
-      console.log(`CreateMultipartUpload ${src.region}/${src.bucket}/${src.key} => ${dest.region}/${dest.bucket}/${dest.key}`)
-      const res = await s3Client(dest).send(new CreateMultipartUploadCommand({ Bucket: dest.bucket, Key: dest.key }))
-      if (!res.UploadId) throw new Error('missing multipart upload ID')
-      uploadID = res.UploadId
-    },
-    async write (chunk) {
-      buffer.append(chunk)
-      hasher.update(chunk)
-      if (buffer.length >= TARGET_PART_SIZE) {
-        const part = await uploadPart({ uploadID, partNumber: parts.length, body: buffer.subarray() }, dest)
-        parts.push(part)
-        buffer.consume(buffer.length)
+  log.info('PutObject', { src: objectName(src), dest: objectName(dest) })
+  try {
+    await dest.store.put(dest.key, src.body, {
+      size: src.size,
+      checksumSHA256: base64pad.encode(src.cid.multihash.digest).slice(1),
+      ...meta
+    })
+  } catch (err: any) {
+    if (err?.name === 'BadDigest') putMetric('IntegrityFailures', 1, 'Count')
+    throw err
+  }
+}
+
+/**
+ * Copy a large CAR or blob to each destination with a multipart upload. Each
+ * part is read from the source once, with a ranged GET, and uploaded to every
+ * destination. Parts are read and uploaded concurrently, but they are hashed in
+ * order, so at most `concurrency` parts are held in memory at any time, however
+ * many destinations there are. An upload is only completed if the hash of all
+ * the parts matches the CID, and `verified`, if set, resolves.
+ *
+ * The state of the hash is saved in the checkpoint of each upload after each
+ * part is hashed, so a resumed upload continues from the first part that was
+ * not hashed. Parts after it that were already uploaded are read again to hash
+ * them, but are not uploaded again unless their checksum does not match the
+ * source. When uploads are resumed from different parts, the hash continues
+ * from the upload that hashed the fewest.
+ *
+ * If `body` is set, the parts are also written to it in order, so the source
+ * does not have to be read again to put it or index it. It is aborted if
+ * every upload fails, as no more parts are read.
+ *
+ * Returns a promise for each write, which is rejected if its upload failed. A
+ * failed upload keeps its checkpoint, and does not stop the others.
+ */
+const writeObjectMultipart = (src: SizedObjectID, writes: MultipartWrite[], options?: MultipartOptions) => {
+  const results = writeMultipartUploads(src, writes, options)
+  return writes.map((_, i) => results.then(settled => {
+    const result = settled[i]
+    if (result.status === 'rejected') throw result.reason
+  }))
+}
+
+const writeMultipartUploads = async (src: SizedObjectID, writes: MultipartWrite[], options?: MultipartOptions): Promise<Array<PromiseSettledResult<void>>> => {
+  const { partLength, first } = multipartParts(src.size, writes.map(w => w.resume), options)
+  const partCount = Math.ceil(src.size / partLength)
+  const concurrency = partConcurrency(partLength, options?.concurrency ?? PART_CONCURRENCY)
+  let sink = options?.body?.getWriter()
+
+  const started = await Promise.allSettled(writes.map(w => withTarget(w.target, () => startUpload(src, w, partLength, first))))
+  const uploads = started.flatMap(s => s.status === 'fulfilled' ? [s.value] : [])
+
+  const hasher = await createSHA256()
+  hasher.init()
+  const resumed = writes.find(w => w.resume?.partSize === partLength && w.resume.hashed?.parts === first)?.resume?.hashed
+  if (first && resumed) hasher.load(base64pad.baseDecode(resumed.state))
+
+  const transferPart = async (index: number) => {
+    const start = index * partLength
+    const end = Math.min(start + partLength, src.size)
+    const body = await getObjectRange(src, start, end)
+    let checksum: Promise<string>|undefined
+    const parts = new Map<MultipartUpload, UploadedPart>()
+    await Promise.all(uploads.filter(u => u.error == null).map(u => withTarget(u.target, async () => {
+      try {
+        const previous = u.listed[index]
+        checksum = checksum ?? partChecksum(body)
+        if (previous && (index < u.hashed || !previous.checksumSHA256 || previous.checksumSHA256 === await checksum)) {
+          parts.set(u, previous)
+          return
+        }
+        parts.set(u, await uploadPart({ uploadID: u.uploadID, partNumber: index + 1, body, checksumSHA256: await checksum }, u.dest))
+        u.uploaded++
+      } catch (err) {
+        // no more parts are uploaded to it
+        u.error = u.error ?? err
       }
-    },
-    async close () {
-      if (buffer.length) {
-        const part = await uploadPart({ uploadID, partNumber: parts.length, body: buffer.subarray() }, dest)
-        parts.push(part)
+    })))
+    return { body, parts }
+  }
+
+  const inflight: Array<Promise<{ body: Uint8Array, parts: Map<MultipartUpload, UploadedPart> }>> = []
+  // the parts that were hashed are not read again
+  let next = first
+  let offset = Math.min(first * partLength, src.size)
+  const enqueue = () => {
+    const transfer = transferPart(next++)
+    transfer.catch(() => {}) // handled when dequeued
+    inflight.push(transfer)
+  }
+  // no more parts are read once every upload has failed, not even for the body
+  const failed = () => {
+    const error = started.find((s): s is PromiseRejectedResult => s.status === 'rejected')?.reason ?? uploads.find(u => u.error != null)?.error
+    return uploads.every(u => u.error != null) ? { error } : undefined
+  }
+
+  try {
+    while (next < partCount && inflight.length < concurrency && !failed()) enqueue()
+    while (inflight.length) {
+      let transfer
+      try {
+        transfer = await inflight.shift()!
+      } catch (err) {
+        // stop enqueuing and wait for the parts in flight, so none are still
+        // uploading when the uploads are resumed from their checkpoints
+        await Promise.allSettled(inflight)
+        throw err
       }
+      const { body, parts } = transfer
+      hasher.update(body)
+      offset += body.length
+      const hashed = { parts: 0, state: base64pad.baseEncode(hasher.save()) }
+      await Promise.all(uploads.filter(u => !u.stopped).map(u => withTarget(u.target, async () => {
+        const part = parts.get(u)
+        // the upload failed, so it is not hashed any further
+        if (!part) return (u.stopped = true)
+        u.parts.push(part)
+        try {
+          await writeCheckpoint(u.dest, { uploadID: u.uploadID, partSize: partLength, hashed: { ...hashed, parts: u.parts.length } })
+        } catch (err) {
+          u.error = u.error ?? err
+          u.stopped = true
+        }
+      })))
+      // the parts are not needed if the body is cancelled
+      await sink?.write(body).catch(() => { sink = undefined })
+      options?.onProgress?.(offset)
+      if (next < partCount && !failed()) enqueue()
+    }
+  } catch (err) {
+    // the parts could not be read, so every upload still hashing fails
+    for (const u of uploads.filter(u => !u.stopped)) {
+      u.error = u.error ?? err
+      u.stopped = true
+    }
+    await sink?.abort(err).catch(() => {})
+    sink = undefined
+  }
+  const failure = failed()
+  if (failure) {
+    await sink?.abort(failure.error).catch(() => {})
+  } else {
+    await sink?.close().catch(() => {})
+  }
 
-      const digest = Digest.create(sha256.code, hasher.digest())
-      if (Link.create(CAR_CODEC, digest).toString() !== src.cid.toString()) {
-        console.log(`AbortMultipartUpload ${src.region}/${src.bucket}/${src.key} => ${dest.region}/${dest.bucket}/${dest.key}`)
-        await s3Client(dest).send(new AbortMultipartUploadCommand({ Bucket: dest.bucket, Key: dest.key, UploadId: uploadID }))
-        throw new Error('integrity check failed')
+  const active = uploads.filter(u => !u.stopped)
+  if (active.length) {
+    const digest = Digest.create(sha256.code, hasher.digest('binary'))
+    let integrityError
+    if (!equals(digest.bytes, src.cid.multihash.bytes)) {
+      putMetric('IntegrityFailures', 1, 'Count')
+      integrityError = new Error('integrity check failed')
+    } else {
+      integrityError = await options?.verified?.then(() => undefined, err => err)
+    }
+    await Promise.all(active.map(u => withTarget(u.target, async () => {
+      try {
+        await (integrityError ? abortUpload(src, u, integrityError) : completeUpload(src, u))
+      } catch (err) {
+        u.error = err
       }
+    })))
+  }
 
-      console.log(`CompleteMultipartUpload ${src.region}/${src.bucket}/${src.key} => ${dest.region}/${dest.bucket}/${dest.key}`)
-      await s3Client(dest).send(new CompleteMultipartUploadCommand({
-        Bucket: dest.bucket,
-        Key: dest.key,
-        UploadId: uploadID,
-        MultipartUpload: { Parts: parts }
-      }))
+  return started.map(s => {
+    if (s.status === 'rejected') return s
+    return s.value.error == null ? { status: 'fulfilled', value: undefined } : { status: 'rejected', reason: s.value.error }
+  })
+}
+
+/**
+ * The size of the parts of multipart uploads of an object of `size` bytes,
+ * and the first part to read. Parts are the size of the parts of a resumed
+ * upload, and are read from the first part that was not hashed by every
+ * upload that is resumed.
+ */
+const multipartParts = (size: number, resumes: Array<ResumableUpload|undefined>, options?: { partSize?: number }) => {
+  const partLength = resumes.find(r => r)?.partSize ?? options?.partSize ?? partSize(size)
+  const first = Math.min(...resumes.map(r => r?.partSize === partLength ? r.hashed?.parts ?? 0 : 0))
+  return { partLength, first }
+}
+
+/**
+ * Resume the upload of a write, or create one if it cannot be resumed with
+ * parts of `partLength` bytes. An upload with parts of another size is aborted.
+ */
+const startUpload = async (src: SizedObjectID, write: MultipartWrite, partLength: number, first: number): Promise<MultipartUpload> => {
+  const { dest, meta, resume } = write
+  const multipart = dest.store.multipart
+  if (!multipart) throw new Error(`multipart upload not supported: ${dest.store.name}`)
+  if (resume?.partSize === partLength) {
+    const hashed = resume.hashed?.parts ?? 0
+    log.info('ResumeMultipartUpload', { uploadID: resume.uploadID, parts: resume.parts.length, hashed, src: objectName(src), dest: objectName(dest) })
+    return { ...write, uploadID: resume.uploadID, listed: resume.parts, hashed, parts: resume.parts.slice(0, first), uploaded: 0 }
+  }
+  if (resume) {
+    log.info('AbortMultipartUpload', { uploadID: resume.uploadID, partSize: resume.partSize, src: objectName(src), dest: objectName(dest) })
+    await multipart.abort(dest.key, resume.uploadID)
+  }
+  log.info('CreateMultipartUpload', { src: objectName(src), dest: objectName(dest) })
+  const uploadID = await multipart.create(dest.key, meta)
+  await writeCheckpoint(dest, { uploadID, partSize: partLength })
+  return { ...write, uploadID, listed: [], hashed: 0, parts: [], uploaded: 0 }
+}
+
+const completeUpload = async (src: SizedObjectID, upload: MultipartUpload) => {
+  const { dest, uploadID } = upload
+  log.info('CompleteMultipartUpload', { uploadID, src: objectName(src), dest: objectName(dest) })
+  await dest.store.multipart!.complete(dest.key, uploadID, upload.parts)
+  await deleteCheckpoint(dest)
+  putMetric('PartsUploaded', upload.uploaded, 'Count')
+}
+
+const abortUpload = async (src: SizedObjectID, upload: MultipartUpload, err: unknown) => {
+  const { dest, uploadID } = upload
+  log.info('AbortMultipartUpload', { uploadID, src: objectName(src), dest: objectName(dest) })
+  await dest.store.multipart!.abort(dest.key, uploadID)
+  await deleteCheckpoint(dest)
+  throw err
+}
+
+/**
+ * Part size for a multipart upload of `size` bytes. Parts are
+ * `TARGET_PART_SIZE`, or if the object would need more than `MAX_PARTS`
+ * parts, the smallest whole number of MiB that fits it in `MAX_PARTS`.
+ */
+const partSize = (size: number) => {
+  const mib = 1024 * 1024
+  const part = Math.max(TARGET_PART_SIZE, Math.ceil(size / MAX_PARTS / mib) * mib)
+  if (part > MAX_PART_SIZE) throw new Error(`object too large for multipart upload: ${size} bytes`)
+  return part
+}
+
+/** Number of parts to transfer at the same time, so at most `MAX_PART_MEMORY` bytes of parts are in memory. */
+export const partConcurrency = (partSize: number, concurrency: number) =>
+  Math.max(1, Math.min(concurrency, Math.floor(MAX_PART_MEMORY / partSize)))
+
+/**
+ * Read bytes `start` (inclusive) to `end` (exclusive) from the source object.
+ * The bytes are read into a buffer of the range length, so a part is only
+ * held in memory once.
+ */
+const getObjectRange = async (src: ObjectID<ReadableStore>, start: number, end: number) => {
+  log.info('GetObject', { src: objectName(src), range: `bytes=${start}-${end - 1}` })
+  const res = await src.store.get(src.key, { range: { start, end } })
+  if (!res) throw new Error('Object not found')
+  const bytes = new Uint8Array(end - start)
+  let length = 0
+  await res.body.pipeTo(new WritableStream({
+    write (chunk) {
+      if (length + chunk.length > bytes.length) throw new Error(`unexpected range length: more than ${bytes.length}`)
+      bytes.set(chunk, length)
+      length += chunk.length
     }
   }))
+  if (length !== bytes.length) throw new Error(`unexpected range length: ${length}, expected: ${bytes.length}`)
+  return bytes
 }
 
-const uploadPart = async (src: PartSource, dest: ObjectID): Promise<CompletedPart> => {
-  console.log(`UploadPart ${src.uploadID} (#${src.partNumber}) => ${dest.region}/${dest.bucket}/${dest.key}`)
-  const digest = await sha256.digest(src.body)
-  const checksum = base64pad.encode(digest.digest).slice(1)
-  const res = await s3Client(dest).send(new UploadPartCommand({
-    UploadId: src.uploadID,
-    PartNumber: src.partNumber,
-    Bucket: dest.bucket,
-    Key: dest.key,
-    Body: src.body,
-    ContentLength: src.body.length,
-    ChecksumSHA256: checksum
-  }))
-  return { ETag: res.ETag, PartNumber: src.partNumber, ChecksumSHA256: checksum }
+const uploadPart = async (src: PartSource, dest: ObjectID): Promise<UploadedPart> => {
+  const multipart = dest.store.multipart
+  if (!multipart) throw new Error(`multipart upload not supported: ${dest.store.name}`)
+  log.info('UploadPart', { uploadID: src.uploadID, partNumber: src.partNumber, dest: objectName(dest) })
+  return multipart.uploadPart(dest.key, src.uploadID, src.partNumber, src.body, { checksumSHA256: src.checksumSHA256 ?? await partChecksum(src.body) })
+}
+
+/** Base64 encoded SHA-256 of a part, as S3 reports part checksums. */
+const partChecksum = async (body: Uint8Array) => base64pad.encode((await sha256.digest(body)).digest).slice(1)
+
+/**
+ * Find an in progress multipart upload to the destination that can be resumed.
+ * An upload is resumable if it has a checkpoint, and is resumed from the
+ * parts listed in it. When `cleanup` is set, uploads that cannot be resumed
+ * are aborted.
+ */
+const findResumableUpload = async (dest: ObjectID, options?: { cleanup?: boolean }): Promise<ResumableUpload|undefined> => {
+  const multipart = dest.store.multipart
+  if (!multipart) return
+
+  log.info('ListMultipartUploads', { dest: objectName(dest) })
+  const uploadIDs = await multipart.listUploads(dest.key)
+
+  const checkpoint = await readCheckpoint(dest)
+  let resumable: ResumableUpload|undefined
+
+  for (const uploadID of uploadIDs) {
+    if (!resumable && checkpoint?.uploadID === uploadID) {
+      log.info('ListParts', { uploadID, dest: objectName(dest) })
+      const uploaded = await multipart.listParts(dest.key, uploadID)
+      // parts are uploaded concurrently, so a part may be missing before the last
+      const parts: UploadedPart[] = []
+      for (const part of uploaded.sort((a, b) => a.partNumber - b.partNumber)) {
+        if (part.partNumber !== parts.length + 1) break
+        parts.push(part)
+      }
+      // the hash can only be resumed if every part it covers was uploaded
+      const { hashed, ...upload } = checkpoint
+      resumable = hashed && hashed.parts <= parts.length ? { ...checkpoint, parts } : { ...upload, parts }
+      continue
+    }
+    if (options?.cleanup) {
+      log.info('AbortMultipartUpload', { uploadID, dest: objectName(dest), stale: true })
+      await multipart.abort(dest.key, uploadID)
+    }
+  }
+
+  if (!resumable && checkpoint && options?.cleanup) {
+    await deleteCheckpoint(dest)
+  }
+  return resumable
+}
+
+const readCheckpoint = async (dest: ObjectID): Promise<MultipartCheckpoint|undefined> => {
+  const res = await dest.store.get(checkpointKey(dest.key))
+  if (!res) return
+  return JSON.parse(await new Response(res.body).text())
+}
+
+const writeCheckpoint = async (dest: ObjectID, checkpoint: MultipartCheckpoint) => {
+  await dest.store.put(checkpointKey(dest.key), new TextEncoder().encode(JSON.stringify(checkpoint)))
 }
 
-const writeCARIndex = async (src: ShardSource, dest: ObjectID) => {
-  const { readable, writable } = new TransformStream()
-  const writer = MultihashIndexSortedWriter.createWriter({ writer: writable.getWriter() })
-  const chunks: Uint8Array[] = []
-  await Promise.all([
-    src.body
-      .pipeThrough(new CARReaderStream())
+const deleteCheckpoint = async (dest: ObjectID) => {
+  await dest.store.delete(checkpointKey(dest.key))
+}
+
+/** Read the header of the source CAR. */
+const readCARHeader = async (src: ObjectID<ReadableStore>) => {
+  log.info('GetObject', { src: objectName(src), header: true })
+  const res = await src.store.get(src.key)
+  if (!res) throw new Error('Object not found')
+  const reader = new CARReaderStream()
+  const blocks = res.body.pipeThrough(reader).getReader()
+  try {
+    // the header is never resolved if the source ends or errors before it is
+    // read, but then the blocks end or error too
+    const end = blocks.read().then(() => { throw new Error('missing CAR header') })
+    end.catch(() => {})
+    return await Promise.race([reader.getHeader(), end])
+  } finally {
+    await blocks.cancel()
+  }
+}
+
+/**
+ * Build the satnav index for the CAR, for the given formats, returning the
+ * index writers and the roots from the CAR header. The index is not encoded
+ * until it is written, and the caller must close the index writer to remove
+ * its temporary files.
+ */
+const buildCARIndex = async (src: ShardSource, formats: IndexFormat[]): Promise<CARIndex> => {
+  const index = formats.some(f => f !== 'sharded-dag-index') ? createIndexWriter() : undefined
+  const dagIndex = formats.includes('sharded-dag-index') ? createDAGIndexWriter(src.cid.multihash, src.size) : undefined
+  const reader = new CARReaderStream()
+  try {
+    await src.body
+      .pipeThrough(reader)
       .pipeTo(new WritableStream({
         async write (block) {
-          await writer.add(block.cid, block.offset)
-        },
-        async close () {
-          await writer.close()
+          await index?.add(block.cid, block.offset)
+          // the block data follows its varint length and CID
+          dagIndex?.add(block.cid, [block.offset + block.length - block.bytes.length, block.bytes.length])
         }
-      })),
-    readable.pipeTo(new WritableStream({ write: chunk => { chunks.push(chunk) } }))
-  ])
-  await s3Client(dest).send(new PutObjectCommand({
-    Bucket: dest.bucket,
-    Key: dest.key,
-    Body: Uint8ArrayList.fromUint8Arrays(chunks).subarray()
-  }))
+      }))
+    const { roots } = await reader.getHeader()
+    return { index, dagIndex, roots: roots.map(r => r.toV1()) }
+  } catch (err) {
+    await index?.close()
+    throw err
+  }
 }
 
-const s3Client = ({ region, endpoint, credentials }: {
-  region: string
-  endpoint?: string
-  credentials?: {
-    accessKeyId: string,
-    secretAccessKey: string
+/** The object of the satnav index in `format`, given the object of the index in the default format. */
+const indexObject = (indexDest: ObjectID, format: IndexFormat): ObjectID =>
+  ({ store: indexDest.store, key: indexKey(indexDest.key, format) })
+
+/**
+ * Write the satnav index of a shard in `format`. A sharded DAG index is for
+ * the first DAG root, which is the root of the shard's DAG.
+ */
+const writeIndex = async (src: ShardObjectID, carIndex: CARIndex, format: IndexFormat, dest: ObjectID, options?: CopyOptions) => {
+  const metadata = indexMetadata(src)
+  if (format !== 'sharded-dag-index') {
+    if (!carIndex.index) throw new Error(`${format} index was not built`)
+    return await writeCARIndex(carIndex.index, dest, { ...options, format, metadata })
   }
-}) => new S3Client({ region, endpoint, credentials })
+
+  if (!carIndex.dagIndex) throw new Error(`${format} index was not built`)
+  const [content] = options?.roots ?? carIndex.roots
+  if (!content) throw new Error('unknown DAG roots')
+  const bytes = await carIndex.dagIndex.encode(content)
+  log.info('PutObject', { dest: objectName(dest) })
+  await dest.store.put(dest.key, bytes, { size: bytes.length, contentType: CAR_CONTENT_TYPE, metadata })
+}
+
+/**
+ * Stream the encoded index to the destination, in MultihashIndexSorted format
+ * if the format is not set. Indexes of at least `maxPutSize` are written with
+ * a multipart upload, one part at a time.
+ */
+const writeCARIndex = async (index: IndexWriter, dest: ObjectID, options?: { format?: SortedIndexFormat, maxPutSize?: number, metadata?: Record<string, string> }) => {
+  const size = index.size(options?.format)
+  const multipart = dest.store.multipart
+  if (size < (options?.maxPutSize ?? MAX_PUT_SIZE) || !multipart) {
+    log.info('PutObject', { dest: objectName(dest) })
+    return await dest.store.put(dest.key, index.encode(options?.format), { size, metadata: options?.metadata })
+  }
+
+  log.info('CreateMultipartUpload', { dest: objectName(dest) })
+  const uploadID = await multipart.create(dest.key, { metadata: options?.metadata })
+  try {
+    const parts: UploadedPart[] = []
+    const part = new Uint8Array(Math.min(partSize(size), size))
+    let length = 0
+    const upload = async () => {
+      parts.push(await uploadPart({ uploadID, partNumber: parts.length + 1, body: part.subarray(0, length) }, dest))
+      length = 0
+    }
+    const reader = index.encode(options?.format).getReader()
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      let offset = 0
+      while (offset < value.length) {
+        const n = Math.min(part.length - length, value.length - offset)
+        part.set(value.subarray(offset, offset + n), length)
+        length += n
+        offset += n
+        if (length === part.length) await upload()
+      }
+    }
+    if (length) await upload()
+    log.info('CompleteMultipartUpload', { uploadID, dest: objectName(dest) })
+    await multipart.complete(dest.key, uploadID, parts)
+    putMetric('PartsUploaded', parts.length, 'Count')
+  } catch (err) {
+    log.info('AbortMultipartUpload', { uploadID, dest: objectName(dest) })
+    await multipart.abort(dest.key, uploadID)
+    throw err
+  }
+}
@@ -1,40 +1,129 @@
 import crypto from 'node:crypto'
 import { ApiHandler } from "sst/node/api"
-import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3'
+import { Config } from 'sst/node/config'
 import * as Link from 'multiformats/link'
 import * as Digest from 'multiformats/hashes/digest'
 import { sha256 } from 'multiformats/hashes/sha2'
-import { errorResponse } from './lib/util'
+import * as raw from 'multiformats/codecs/raw'
+import * as PieceHasher from '@web3-storage/data-segment/multihash'
+import { errorResponse, mustGetEnv } from './lib/util'
+import { validateCAR, CARValidation } from './lib/car'
+import { verifyRequest } from './lib/auth'
+import { createSourceStore } from './lib/store'
+import { sourcePolicyFromEnv, validateKind, validateObjectSize, validateSource, invalidParameter } from './lib/validate'
+import { log, putMetric, requestID, startTimer, withLogContext, REQUEST_ID_HEADER } from './lib/log'
 
 const CAR_CODEC = 0x0202
 
-export const handler = ApiHandler(async event => {
-  const { searchParams } = new URL(`http://localhost/?${event.rawQueryString}`)
+export const handler = ApiHandler(event => _handler.call(null, new Request(`http://localhost/?${event.rawQueryString}`, {
+  headers: { [REQUEST_ID_HEADER]: event.requestContext.requestId }
+}), {
+  ...process.env,
+  // @ts-expect-error
+  REQUEST_SIGNING_KEY: Config.REQUEST_SIGNING_KEY
+}))
 
-  const region = searchParams.get('region')
-  if (!region) return errorResponse('Missing "region" search parameter', 400)
-  if (!['us-east-2', 'us-west-2'].includes(region)) return errorResponse('Invalid region', 400)
+export const _handler = (request: Request, env: Record<string, string|undefined>) =>
+  withLogContext({ requestId: requestID(request) }, () => handleRequest(request, env))
 
-  const bucket = searchParams.get('bucket')
-  if (!bucket) return errorResponse('Missing "bucket" search parameter', 400)
-  if (!bucket.startsWith('dotstorage')) return errorResponse('Invalid bucket', 400)
+const handleRequest = async (request: Request, env: Record<string, string|undefined>) => {
+  const url = new URL(request.url)
+  const authError = verifyRequest(url, 'hash', mustGetEnv(env, 'REQUEST_SIGNING_KEY'))
+  if (authError) return authError
+  const { searchParams } = url
 
-  const key = searchParams.get('key')
-  if (!key) return errorResponse('Missing "key" search parameter', 400)
-  if (!key.endsWith('.car')) return errorResponse('Only keys for CARs supported', 400)
+  const policy = sourcePolicyFromEnv(env)
+  const kind = validateKind(searchParams)
+  if (kind.error) return kind.error
+  const source = validateSource(searchParams, policy, kind.ok)
+  if (source.error) return source.error
+  const { region, bucket, key } = source.ok
 
-  const s3 = new S3Client({ region })
-  const cmd = new GetObjectCommand({ Bucket: bucket, Key: key })
+  const validate = searchParams.get('validate') === 'true'
+  if (validate && kind.ok === 'blob') return invalidParameter('validate', 'Only CARs can be validated')
+  const timing = searchParams.get('timing') === 'true'
 
-  const res = await s3.send(cmd)
-  if (!res.Body) return errorResponse('Object not found', 404)
+  log.info('GetObject', { src: `${region}/${bucket}/${key}` })
+  const elapsed = startTimer()
+  const res = await createSourceStore(region, bucket, env).get(key)
+  if (!res) return errorResponse('Object not found', 404)
+  const size = validateObjectSize(res.size, policy)
+  if (size.error) {
+    res.body.cancel()
+    return size.error
+  }
 
+  const { digest, piece, validation } = await hashObject(res.body, { validate, piece: searchParams.get('piece') === 'true' })
+  // blobs are identified by raw CIDs
+  const cid = Link.create(kind.ok === 'blob' ? raw.code : CAR_CODEC, digest)
+  const ms = elapsed()
+  putMetric('BytesHashed', res.size, 'Bytes')
+  putMetric('StageDuration', ms, 'Milliseconds', { Stage: 'hash' })
+  const timingField = timing ? `,"timing":{"hash":${ms}}` : ''
+
+  if (!validation) {
+    const pieceField = piece ? `,"piece":{"/":"${piece}"}` : ''
+    return { statusCode: 200, body: `{"ok":true,"cid":{"/":"${cid}"}${pieceField}${timingField}}` }
+  }
+
+  const { roots, ...result } = validation
+  return {
+    statusCode: 200,
+    body: JSON.stringify({
+      ok: true,
+      cid: { '/': cid.toString() },
+      ...(piece ? { piece: { '/': piece.toString() } } : {}),
+      ...result,
+      roots: roots.map(r => ({ '/': r.toString() })),
+      ...(timing ? { timing: { hash: ms } } : {})
+    })
+  }
+}
+
+export interface HashOptions {
+  /**
+   * Also compute the v2 piece CID (FRC-0069). The piece hasher is much slower
+   * than SHA-256, so it is only run when asked for.
+   */
+  piece?: boolean
+  /** Parse the CAR and re-hash every block against its CID. */
+  validate?: boolean
+}
+
+/**
+ * Hash an object, and compute its piece CID or validate it as a CAR if asked.
+ * The object is read once: each chunk is hashed and then forwarded to the CAR
+ * validator.
+ */
+export const hashObject = async (body: ReadableStream<Uint8Array>, options?: HashOptions) => {
   const hash = crypto.createHash('sha256')
-  await res.Body.transformToWebStream()
-    .pipeTo(new WritableStream({ write: chunk => { hash.update(chunk) } }))
+  const pieceHasher = options?.piece ? PieceHasher.create() : undefined
+  let validation: { writer: WritableStreamDefaultWriter<Uint8Array>, result: Promise<CARValidation> }|undefined
+  if (options?.validate) {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>()
+    validation = { writer: writable.getWriter(), result: validateCAR(readable) }
+  }
 
-  const digest = Digest.create(sha256.code, hash.digest())
-  const cid = Link.create(CAR_CODEC, digest)
+  await body.pipeTo(new WritableStream({
+    async write (chunk) {
+      hash.update(chunk)
+      pieceHasher?.write(chunk)
+      // the validator stops reading at an unparseable block, but the rest of
+      // the object must still be hashed
+      await validation?.writer.write(chunk).catch(() => {})
+    },
+    async close () {
+      await validation?.writer.close().catch(() => {})
+    },
+    async abort (reason) {
+      await validation?.writer.abort(reason).catch(() => {})
+    }
+  }))
 
-  return { statusCode: 200, body: `{"ok":true,"cid":{"/":"${cid}"}}` }
-})
+  return {
+    digest: Digest.create(sha256.code, hash.digest()),
+    // v2 piece CID (FRC-0069)
+    piece: pieceHasher ? Link.create(raw.code, pieceHasher.digest()) : undefined,
+    validation: validation && await validation.result
+  }
+}
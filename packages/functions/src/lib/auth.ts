@@ -0,0 +1,95 @@
+import crypto from 'node:crypto'
+import { errorResponse } from './util'
+
+/** Maximum seconds a signed request may be valid for. */
+const MAX_EXPIRY = 15 * 60
+/** Allowed difference in seconds between the client and server clocks. */
+const MAX_CLOCK_SKEW = 60
+
+export type AuthErrorCode =
+  | 'MISSING_SIGNATURE'
+  | 'INVALID_SIGNATURE'
+  | 'EXPIRED'
+  | 'EXPIRY_TOO_FAR'
+  | 'REPLAYED'
+
+/** The endpoint a request is signed for, so a signature cannot be used elsewhere. */
+export type SignedAction = 'hash' | 'copy' | 'verify'
+
+interface SignOptions {
+  /** Unix time in seconds. */
+  now?: number
+  /** Seconds from now the signature expires. */
+  expiresIn?: number
+  nonce?: string
+  /** Request body, if any. */
+  body?: string
+}
+
+interface VerifyOptions {
+  /** Unix time in seconds. */
+  now?: number
+  /** Request body, if any. */
+  body?: string
+}
+
+const unixTime = () => Math.floor(Date.now() / 1000)
+
+/** Nonces of requests seen by this instance, and when they expire. */
+const seen = new Map<string, number>()
+
+const canonicalize = (action: SignedAction, searchParams: URLSearchParams, body?: string) => {
+  const entries = [...searchParams].filter(([k]) => k !== 'signature')
+  entries.sort(([ak, av], [bk, bv]) => ak < bk ? -1 : ak > bk ? 1 : av < bv ? -1 : av > bv ? 1 : 0)
+  const canonical = `${action}\n${new URLSearchParams(entries)}`
+  return body == null ? canonical : `${canonical}\n${crypto.createHash('sha256').update(body).digest('hex')}`
+}
+
+const hmac = (key: string, data: string) => crypto.createHmac('sha256', key).update(data).digest('hex')
+
+/**
+ * Add `expires`, `nonce` and `signature` search parameters to the URL. If the
+ * request has a body, its SHA-256 hash is included in the signature.
+ */
+export const signRequest = (url: URL, action: SignedAction, key: string, options?: SignOptions) => {
+  const now = options?.now ?? unixTime()
+  url.searchParams.set('expires', String(now + (options?.expiresIn ?? 5 * 60)))
+  url.searchParams.set('nonce', options?.nonce ?? crypto.randomBytes(16).toString('hex'))
+  url.searchParams.set('signature', hmac(key, canonicalize(action, url.searchParams, options?.body)))
+  return url
+}
+
+const authError = (message: string, code: AuthErrorCode) => errorResponse(message, 401, { code })
+
+/**
+ * Verify the signature of a request. Returns an error response if the request
+ * is not signed with the key, has expired, expires too far in the future or
+ * has been seen before.
+ *
+ * Note: replay protection is per lambda instance. Signatures are short lived
+ * to limit the window in which a request could be replayed to another instance.
+ */
+export const verifyRequest = (url: URL, action: SignedAction, key: string, options?: VerifyOptions) => {
+  const { searchParams } = url
+  const signature = searchParams.get('signature')
+  const expiresstr = searchParams.get('expires')
+  const nonce = searchParams.get('nonce')
+  if (!signature || !expiresstr || !nonce) return authError('Missing request signature', 'MISSING_SIGNATURE')
+
+  const expected = Buffer.from(hmac(key, canonicalize(action, searchParams, options?.body)), 'hex')
+  const actual = Buffer.from(signature, 'hex')
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return authError('Invalid request signature', 'INVALID_SIGNATURE')
+  }
+
+  const now = options?.now ?? unixTime()
+  const expires = parseInt(expiresstr)
+  if (expires < now - MAX_CLOCK_SKEW) return authError('Request signature expired', 'EXPIRED')
+  if (expires > now + MAX_EXPIRY + MAX_CLOCK_SKEW) return authError('Request signature expiry too far in the future', 'EXPIRY_TOO_FAR')
+
+  for (const [n, exp] of seen) {
+    if (exp < now - MAX_CLOCK_SKEW) seen.delete(n)
+  }
+  if (seen.has(nonce)) return authError('Request already seen', 'REPLAYED')
+  seen.set(nonce, expires)
+}
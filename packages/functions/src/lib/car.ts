@@ -0,0 +1,79 @@
+import { CARReaderStream } from 'carstream'
+import { encode as encodeVarint } from 'carstream/varint'
+import * as dagCBOR from '@ipld/dag-cbor'
+import { UnknownLink } from 'multiformats/link'
+import { equals } from 'multiformats/bytes'
+import { MultihashHasher } from 'multiformats/hashes/interface'
+import { sha256, sha512 } from 'multiformats/hashes/sha2'
+import { identity } from 'multiformats/hashes/identity'
+
+const hashers: Record<number, MultihashHasher> = {
+  [sha256.code]: sha256,
+  [sha512.code]: sha512,
+  [identity.code]: identity
+}
+
+export interface CARValidation {
+  /** True if the CAR could be parsed and every verifiable block matched its CID. */
+  valid: boolean
+  roots: UnknownLink[]
+  /** Number of blocks read from the CAR. */
+  blocks: number
+  /** Total size of the block data (excluding CIDs and length prefixes). */
+  blockBytes: number
+  /** Number of blocks not verified because their hash function is not supported. */
+  unverifiedBlocks: number
+  /** Byte offset of the first invalid (or truncated) block. */
+  invalidOffset?: number
+  error?: string
+}
+
+/**
+ * Parse a CAR and re-hash every block against its CID. Verification stops at
+ * the first invalid block, but the stream is read to the end so that the
+ * totals are complete.
+ */
+export const validateCAR = async (body: ReadableStream<Uint8Array>): Promise<CARValidation> => {
+  const reader = new CARReaderStream()
+  const result: CARValidation = { valid: true, roots: [], blocks: 0, blockBytes: 0, unverifiedBlocks: 0 }
+  let end = 0
+
+  reader.getHeader().then(header => {
+    result.roots = header.roots.map(r => r.toV1())
+    // a truncated first block starts where the header ends
+    const bytes = dagCBOR.encode(header)
+    end = encodeVarint(bytes.length).length + bytes.length
+  })
+
+  try {
+    await body.pipeThrough(reader).pipeTo(new WritableStream({
+      async write (block) {
+        result.blocks++
+        result.blockBytes += block.bytes.length
+        end = block.offset + block.length
+
+        const hasher = hashers[block.cid.multihash.code]
+        if (!hasher) {
+          result.unverifiedBlocks++
+          return
+        }
+        if (result.invalidOffset != null) return
+
+        const digest = await hasher.digest(block.bytes)
+        if (!equals(digest.bytes, block.cid.multihash.bytes)) {
+          result.valid = false
+          result.invalidOffset = block.offset
+          result.error = `block hash mismatch: ${block.cid}`
+        }
+      }
+    }))
+  } catch (err: any) {
+    result.valid = false
+    if (result.invalidOffset == null) {
+      result.invalidOffset = end
+      result.error = err.message
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,113 @@
+import * as dagCBOR from '@ipld/dag-cbor'
+import * as Link from 'multiformats/link'
+import { UnknownLink } from 'multiformats/link'
+import { CID } from 'multiformats/cid'
+import { MultihashDigest } from 'multiformats'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { base58btc } from 'multiformats/bases/base58'
+import { CARReaderStream, CARWriterStream } from 'carstream'
+
+/** Key of the index in the root block of a sharded DAG index. */
+export const SHARDED_DAG_INDEX_VERSION = 'index/sharded/dag@0.1'
+
+/** Byte range of a block's data in a shard: its offset and length. */
+export type Position = [offset: number, length: number]
+
+/** A decoded sharded DAG index. */
+export interface ShardedDAGIndex {
+  /** The DAG root. */
+  content: UnknownLink
+  /** The multihash of each shard, and the position of each block in it, by base58btc encoded multihash. */
+  shards: Array<{ multihash: Uint8Array, slices: Map<string, Position> }>
+}
+
+/**
+ * Collects the position of each block in a shard, to encode as a sharded DAG
+ * index: a CAR with a root block that has the DAG root and a link to the blob
+ * index of the shard, which maps the multihash of each block, and of the shard
+ * itself, to its byte range. Positions are held in memory, as the blob index
+ * is a single block.
+ */
+export interface DAGIndexWriter {
+  /** Add a block. Only the first position of a block that appears more than once is kept. */
+  add (cid: UnknownLink, position: Position): void
+  /** Encode the index for the DAG root. */
+  encode (content: UnknownLink): Promise<Uint8Array>
+}
+
+export const createDAGIndexWriter = (shard: MultihashDigest, size: number): DAGIndexWriter => {
+  const slices = new Map<string, [Uint8Array, Position]>()
+  return {
+    add (cid, position) {
+      const key = base58btc.encode(cid.multihash.bytes)
+      // copy the multihash, so it does not keep the CAR bytes it was read from in memory
+      if (!slices.has(key)) slices.set(key, [new Uint8Array(cid.multihash.bytes), position])
+    },
+    async encode (content) {
+      const blobIndex = await encodeBlock([shard.bytes, [[shard.bytes, [0, size]], ...slices.values()]])
+      const root = await encodeBlock({ [SHARDED_DAG_INDEX_VERSION]: { content, shards: [blobIndex.cid] } })
+      return await encodeCAR(root.cid, [root, blobIndex])
+    }
+  }
+}
+
+/** Decode a sharded DAG index, and check it has the expected structure. */
+export const decodeDAGIndex = async (body: ReadableStream<Uint8Array>): Promise<ShardedDAGIndex> => {
+  const reader = new CARReaderStream()
+  const blocks = new Map<string, Uint8Array>()
+  await body.pipeThrough(reader).pipeTo(new WritableStream({
+    write (block) {
+      blocks.set(block.cid.toString(), block.bytes)
+    }
+  }))
+  const { roots } = await reader.getHeader()
+  if (roots.length !== 1) throw new Error('expected a single root')
+
+  const root = decodeBlock(blocks, roots[0])
+  const index = isRecord(root) ? root[SHARDED_DAG_INDEX_VERSION] : undefined
+  const content = isRecord(index) ? CID.asCID(index.content) : null
+  if (!content || !isRecord(index) || !Array.isArray(index.shards)) throw new Error('invalid index root')
+
+  const shardLinks: unknown[] = index.shards
+  const shards = shardLinks.map(link => {
+    const shardLink = CID.asCID(link)
+    if (!shardLink) throw new Error('invalid shard link')
+    const blobIndex = decodeBlock(blocks, shardLink)
+    const [multihash, entries]: unknown[] = Array.isArray(blobIndex) ? blobIndex : []
+    if (!(multihash instanceof Uint8Array) || !Array.isArray(entries)) throw new Error('invalid blob index')
+    const slices = new Map<string, Position>()
+    for (const entry of entries as unknown[]) {
+      const [slice, position]: unknown[] = Array.isArray(entry) ? entry : []
+      const [offset, length]: unknown[] = Array.isArray(position) ? position : []
+      if (!(slice instanceof Uint8Array) || !isInteger(offset) || !isInteger(length)) throw new Error('invalid blob index entry')
+      slices.set(base58btc.encode(slice), [offset, length])
+    }
+    return { multihash, slices }
+  })
+  return { content, shards }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null
+
+const isInteger = (value: unknown): value is number => Number.isInteger(value)
+
+const encodeBlock = async (value: unknown) => {
+  const bytes = dagCBOR.encode(value)
+  return { cid: Link.create(dagCBOR.code, await sha256.digest(bytes)), bytes }
+}
+
+const decodeBlock = (blocks: Map<string, Uint8Array>, cid: UnknownLink): unknown => {
+  const bytes = blocks.get(cid.toString())
+  if (!bytes) throw new Error(`missing block ${cid}`)
+  return dagCBOR.decode(bytes)
+}
+
+const encodeCAR = async (root: UnknownLink, blocks: Array<{ cid: UnknownLink, bytes: Uint8Array }>) => {
+  const car = new CARWriterStream([root])
+  const bytes = new Response(car.readable).arrayBuffer()
+  const writer = car.writable.getWriter()
+  for (const block of blocks) await writer.write(block)
+  await writer.close()
+  return new Uint8Array(await bytes)
+}
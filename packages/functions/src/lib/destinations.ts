@@ -0,0 +1,97 @@
+import { UnknownLink } from 'multiformats/link'
+import { mustGetEnv } from './util'
+import { createS3Store, ObjectID, Store } from './store'
+import { keyLayoutFromEnv } from './keys'
+
+/** Name of the destination configured by the `DEST_*` and `*_BUCKET` env vars. */
+export const DEFAULT_DESTINATION = 'default'
+
+/**
+ * Env vars that configure each additional destination listed in
+ * `DESTINATIONS`, prefixed with `DEST_<NAME>_`.
+ */
+export const DESTINATION_ENV_VARS = ['ENDPOINT', 'REGION', 'CARPARK_BUCKET', 'SATNAV_BUCKET', 'DUDEWHERE_BUCKET'] as const
+
+/** Credentials of each additional destination, prefixed with `DEST_<NAME>_`. */
+export const DESTINATION_SECRETS = ['ACCESS_KEY_ID', 'SECRET_ACCESS_KEY'] as const
+
+/** The carpark, satnav and dudewhere buckets of a destination. */
+export interface Destination {
+  name: string
+  carpark: Store
+  satnav: Store
+  dudewhere: Store
+}
+
+/**
+ * Names of the destinations configured in env: the default destination,
+ * followed by the comma separated names in `DESTINATIONS`.
+ */
+export const destinationNames = (env: Record<string, string|undefined>) => {
+  const names = (env.DESTINATIONS ?? '').split(',').map(s => s.trim()).filter(Boolean)
+  for (const name of names) {
+    if (!/^[a-z0-9-]+$/.test(name) || name === DEFAULT_DESTINATION) {
+      throw new Error(`invalid destination name: ${name}`)
+    }
+  }
+  return [DEFAULT_DESTINATION, ...names]
+}
+
+/** Name of the env var or secret `name` of a destination. */
+export const destinationVar = (destination: string, name: string) =>
+  `DEST_${destination.toUpperCase().replace(/-/g, '_')}_${name}`
+
+/**
+ * The destinations configured in env, or if `names` is set, only those. Each
+ * has its own endpoint, region, credentials and buckets.
+ */
+export const destinationsFromEnv = (env: Record<string, string|undefined>, names?: string[]): Destination[] => {
+  const configured = destinationNames(env)
+  for (const name of names ?? []) {
+    if (!configured.includes(name)) throw new Error(`unknown destination: ${name}`)
+  }
+  return configured.filter(name => !names?.length || names.includes(name)).map(name => {
+    const dest = name === DEFAULT_DESTINATION ? destConfig(env) : {
+      endpoint: mustGetEnv(env, destinationVar(name, 'ENDPOINT')),
+      region: mustGetEnv(env, destinationVar(name, 'REGION')),
+      credentials: {
+        accessKeyId: mustGetEnv(env, destinationVar(name, 'ACCESS_KEY_ID')),
+        secretAccessKey: mustGetEnv(env, destinationVar(name, 'SECRET_ACCESS_KEY'))
+      }
+    }
+    const bucket = (bucketVar: string) => mustGetEnv(env, name === DEFAULT_DESTINATION ? bucketVar : destinationVar(name, bucketVar))
+    return {
+      name,
+      carpark: createS3Store({ ...dest, bucket: bucket('CARPARK_BUCKET') }),
+      satnav: createS3Store({ ...dest, bucket: bucket('SATNAV_BUCKET') }),
+      dudewhere: createS3Store({ ...dest, bucket: bucket('DUDEWHERE_BUCKET') })
+    }
+  })
+}
+
+/**
+ * The carpark, satnav and dudewhere destinations for a shard. Keys in the
+ * dudewhere bucket depend on the DAG root, so are made with the key layout.
+ */
+export const shardDestinations = (env: Record<string, string|undefined>, shard: UnknownLink): [ObjectID, ObjectID, Store] => {
+  const dest = destConfig(env)
+  const keys = keyLayoutFromEnv(env)
+
+  return [{
+    store: createS3Store({ ...dest, bucket: mustGetEnv(env, 'CARPARK_BUCKET') }),
+    key: keys.carpark(shard)
+  }, {
+    store: createS3Store({ ...dest, bucket: mustGetEnv(env, 'SATNAV_BUCKET') }),
+    key: keys.satnav(shard)
+  },
+  createS3Store({ ...dest, bucket: mustGetEnv(env, 'DUDEWHERE_BUCKET') })]
+}
+
+const destConfig = (env: Record<string, string|undefined>) => ({
+  endpoint: mustGetEnv(env, 'DEST_ENDPOINT'),
+  region: mustGetEnv(env, 'DEST_REGION'),
+  credentials: {
+    accessKeyId: mustGetEnv(env, 'DEST_ACCESS_KEY_ID'),
+    secretAccessKey: mustGetEnv(env, 'DEST_SECRET_ACCESS_KEY')
+  }
+})
@@ -0,0 +1,126 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import readline from 'node:readline'
+
+/** Number of entries sorted in memory before they are written to a run. */
+export const RUN_SIZE = 100_000
+
+export interface SortedEntry<T> {
+  key: string
+  value: T
+}
+
+/** Encodes sorted entries as a line of text in a run, and decodes them. */
+export interface EntryCodec<T> {
+  encode: (entry: SortedEntry<T>) => string
+  decode: (line: string) => SortedEntry<T>
+}
+
+export interface SorterOptions<T> {
+  /** Number of entries sorted in memory before they are written to a run. */
+  runSize?: number
+  /** Codec of the entries in a run. Default JSON. */
+  codec?: EntryCodec<T>
+}
+
+export interface Sorter<T> {
+  add: (key: string, value: T) => Promise<void>
+  sorted: () => AsyncIterable<SortedEntry<T>>
+}
+
+export type DiffResult<T> = { missing: T, orphan?: undefined } | { missing?: undefined, orphan: string }
+
+/**
+ * Compare keys in the order S3 lists them. Note: this is UTF-16 code unit
+ * order, which is the same as the UTF-8 binary order S3 uses for ASCII keys.
+ */
+export const compareKeys = (a: string, b: string) => a < b ? -1 : a > b ? 1 : 0
+
+/**
+ * Sort values by key with bounded memory. Values are sorted in runs of
+ * `runSize`, each run is written to a file in `dir`, and the runs are merged
+ * when read. Values with equal keys are not kept in any particular order.
+ */
+export const createSorter = <T>(dir: string, options?: SorterOptions<T>): Sorter<T> => {
+  const runSize = options?.runSize ?? RUN_SIZE
+  const codec: EntryCodec<T> = options?.codec ?? { encode: JSON.stringify, decode: JSON.parse }
+  let buffer: Array<SortedEntry<T>> = []
+  const runs: string[] = []
+
+  const flush = async () => {
+    if (!buffer.length) return
+    buffer.sort((a, b) => compareKeys(a.key, b.key))
+    const run = path.join(dir, `${runs.length}.ndjson`)
+    await fs.promises.writeFile(run, buffer.map(entry => codec.encode(entry)).join('\n') + '\n')
+    runs.push(run)
+    buffer = []
+  }
+
+  return {
+    async add (key, value) {
+      buffer.push({ key, value })
+      if (buffer.length >= runSize) await flush()
+    },
+    async * sorted () {
+      await flush()
+      const readers = runs.map(run => readRun(run, codec))
+      const next = async (reader: AsyncGenerator<SortedEntry<T>>) => {
+        const { done, value } = await reader.next()
+        return done ? undefined : value
+      }
+      try {
+        const heads = await Promise.all(readers.map(next))
+        while (true) {
+          let min = -1
+          for (const [i, head] of heads.entries()) {
+            if (head && (min === -1 || compareKeys(head.key, heads[min]!.key) < 0)) min = i
+          }
+          if (min === -1) return
+          yield heads[min]!
+          heads[min] = await next(readers[min])
+        }
+      } finally {
+        await Promise.all(readers.map(r => r.return(undefined)))
+      }
+    }
+  }
+}
+
+/** Read the entries in a run file, a line at a time. */
+async function * readRun<T> (run: string, codec: EntryCodec<T>) {
+  const file = await fs.promises.open(run)
+  try {
+    const lines = readline.createInterface({ input: file.createReadStream({ autoClose: false }), crlfDelay: Infinity })
+    for await (const line of lines) {
+      if (line) yield codec.decode(line)
+    }
+  } finally {
+    await file.close()
+  }
+}
+
+/**
+ * Merge expected keys with the keys listed in a bucket, both in key order.
+ * Yields the expected values whose key is not listed, and the listed keys
+ * that are not expected.
+ */
+export async function * diffSorted<T> (expected: AsyncIterable<SortedEntry<T>>, listed: AsyncIterable<string>): AsyncIterable<DiffResult<T>> {
+  const expectedIterator = expected[Symbol.asyncIterator]()
+  const listedIterator = listed[Symbol.asyncIterator]()
+  let e = await expectedIterator.next()
+  let l = await listedIterator.next()
+  while (!e.done || !l.done) {
+    if (!e.done && (l.done || compareKeys(e.value.key, l.value) < 0)) {
+      yield { missing: e.value.value }
+      e = await expectedIterator.next()
+    } else if (!l.done && (e.done || compareKeys(l.value, e.value.key) < 0)) {
+      yield { orphan: l.value }
+      l = await listedIterator.next()
+    } else if (!e.done && !l.done) {
+      // many items may expect the same key
+      const key = l.value
+      while (!e.done && e.value.key === key) e = await expectedIterator.next()
+      l = await listedIterator.next()
+    }
+  }
+}
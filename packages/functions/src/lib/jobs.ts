@@ -0,0 +1,99 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb'
+import { DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb'
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs'
+
+/** How long job records are kept for, in seconds. */
+const JOB_TTL = 60 * 60 * 24 * 30
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed'
+
+export interface Job {
+  id: string
+  status: JobStatus
+  /** Search params of the copy request. */
+  request: string
+  /** Number of CAR bytes copied so far. */
+  bytes: number
+  /** Response body of a completed copy. */
+  result?: Record<string, unknown>
+  error?: string
+  /** ISO 8601 date the job was created. */
+  created: string
+  /** ISO 8601 date the job was last updated. */
+  updated: string
+  /** Unix time in seconds after which the record may be deleted. */
+  expires: number
+}
+
+export type JobUpdate = Partial<Pick<Job, 'status' | 'bytes' | 'result' | 'error'>>
+
+/** Persistent job status, readable by the status endpoint. */
+export interface JobStore {
+  put (job: Job): Promise<void>
+  get (id: string): Promise<Job|undefined>
+  /** Set the given fields, removing any that are `undefined`. */
+  update (id: string, changes: JobUpdate): Promise<void>
+}
+
+/** Queue of job IDs waiting to be run. */
+export interface JobQueue {
+  send (id: string): Promise<void>
+}
+
+/** Message body of a job queue message. */
+export interface JobMessage {
+  id: string
+}
+
+export const createJob = (id: string, request: string, now = new Date()): Job => ({
+  id,
+  status: 'queued',
+  request,
+  bytes: 0,
+  created: now.toISOString(),
+  updated: now.toISOString(),
+  expires: Math.floor(now.getTime() / 1000) + JOB_TTL
+})
+
+/** A job store backed by a DynamoDB table with partition key `id`. */
+export const createDynamoJobStore = (options: { region: string, tableName: string }): JobStore => {
+  const client = DynamoDBDocumentClient.from(new DynamoDBClient({ region: options.region }), {
+    marshallOptions: { removeUndefinedValues: true }
+  })
+  const TableName = options.tableName
+
+  return {
+    async put (job) {
+      await client.send(new PutCommand({ TableName, Item: job }))
+    },
+    async get (id) {
+      const res = await client.send(new GetCommand({ TableName, Key: { id } }))
+      return res.Item as Job|undefined
+    },
+    async update (id, changes) {
+      const entries = Object.entries({ ...changes, updated: new Date().toISOString() })
+      const set = entries.filter(([, v]) => v !== undefined)
+      const remove = entries.filter(([, v]) => v === undefined)
+      let expr = `SET ${set.map(([k]) => `#${k} = :${k}`).join(', ')}`
+      if (remove.length) expr += ` REMOVE ${remove.map(([k]) => `#${k}`).join(', ')}`
+      await client.send(new UpdateCommand({
+        TableName,
+        Key: { id },
+        UpdateExpression: expr,
+        ExpressionAttributeNames: Object.fromEntries(entries.map(([k]) => [`#${k}`, k])),
+        ExpressionAttributeValues: Object.fromEntries(set.map(([k, v]) => [`:${k}`, v]))
+      }))
+    }
+  }
+}
+
+/** A job queue backed by an SQS queue. */
+export const createSQSJobQueue = (options: { region: string, queueURL: string }): JobQueue => {
+  const client = new SQSClient({ region: options.region })
+  return {
+    async send (id) {
+      const message: JobMessage = { id }
+      await client.send(new SendMessageCommand({ QueueUrl: options.queueURL, MessageBody: JSON.stringify(message) }))
+    }
+  }
+}
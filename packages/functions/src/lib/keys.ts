@@ -0,0 +1,93 @@
+import { UnknownLink } from 'multiformats/link'
+import { base58btc } from 'multiformats/bases/base58'
+import { IndexFormat } from './satnav'
+
+/**
+ * Environment variables that configure the destination key templates, and
+ * their defaults. In a template, `{shard}` is the CAR CID, `{multihash}` is
+ * the base58btc encoded multihash of the CAR or blob, `{cid}` is the raw CID
+ * of a blob and `{root}` is a DAG root CID.
+ */
+export const KEY_TEMPLATE_DEFAULTS = {
+  CARPARK_KEY_TEMPLATE: '{shard}/{shard}.car',
+  SATNAV_KEY_TEMPLATE: '{shard}/{shard}.car.idx',
+  DUDEWHERE_KEY_TEMPLATE: '{root}/{shard}',
+  BLOB_KEY_TEMPLATE: '{multihash}/{multihash}.blob'
+} as const
+
+export const KEY_TEMPLATE_ENV_VARS = Object.keys(KEY_TEMPLATE_DEFAULTS) as Array<keyof typeof KEY_TEMPLATE_DEFAULTS>
+
+/**
+ * Suffixes of the satnav key for the index of a shard in each format, so that
+ * an index in each of several formats may be written for the same shard.
+ */
+export const INDEX_KEY_SUFFIXES: Record<IndexFormat, string> = {
+  'multihash-index-sorted': '',
+  'index-sorted': '.sorted',
+  'sharded-dag-index': '.dag.car'
+}
+
+/** Key of the index in `format`, given the satnav key of the shard. */
+export const indexKey = (satnavKey: string, format: IndexFormat) => `${satnavKey}${INDEX_KEY_SUFFIXES[format]}`
+
+/**
+ * Prefix of the keys of multipart upload checkpoints in a destination bucket.
+ * Checkpoints are kept apart from the artifacts, so that listings of the
+ * artifacts can skip them.
+ */
+export const CHECKPOINT_PREFIX = '.checkpoint/'
+
+/** Key of the checkpoint of a multipart upload to `key`. */
+export const checkpointKey = (key: string) => `${CHECKPOINT_PREFIX}${key}`
+
+/**
+ * Keys of the artifacts of a shard in the carpark, satnav and dudewhere
+ * buckets, and of blobs in the carpark bucket.
+ */
+export interface KeyLayout {
+  carpark (shard: UnknownLink): string
+  satnav (shard: UnknownLink): string
+  /** Key of the index of a shard in `format`, in the satnav bucket. */
+  index (shard: UnknownLink, format: IndexFormat): string
+  dudewhere (root: UnknownLink, shard: UnknownLink): string
+  blob (cid: UnknownLink): string
+}
+
+const PLACEHOLDER = /\{([^}]*)\}/g
+
+/** Check a template only has known placeholders, and has at least one of each group of `required`. */
+const parseTemplate = (name: string, template: string, known: string[], required: string[][]) => {
+  const placeholders = [...template.matchAll(PLACEHOLDER)].map(m => m[1])
+  const unknown = placeholders.find(p => !known.includes(p))
+  if (unknown != null) throw new Error(`invalid ${name}: unknown placeholder {${unknown}}`)
+  for (const group of required) {
+    if (!group.some(p => placeholders.includes(p))) {
+      throw new Error(`invalid ${name}: missing ${group.map(p => `{${p}}`).join(' or ')}`)
+    }
+  }
+  return (values: Record<string, string>) => template.replace(PLACEHOLDER, (_, p) => values[p])
+}
+
+const shardValues = (shard: UnknownLink) => ({
+  shard: shard.toString(),
+  multihash: base58btc.encode(shard.multihash.bytes)
+})
+
+/** Create the key layout from environment variables, falling back to the default templates. */
+export const keyLayoutFromEnv = (env: Record<string, string|undefined>): KeyLayout => {
+  const template = (name: keyof typeof KEY_TEMPLATE_DEFAULTS) => env[name] || KEY_TEMPLATE_DEFAULTS[name]
+  const carpark = parseTemplate('CARPARK_KEY_TEMPLATE', template('CARPARK_KEY_TEMPLATE'), ['shard', 'multihash'], [['shard', 'multihash']])
+  const satnav = parseTemplate('SATNAV_KEY_TEMPLATE', template('SATNAV_KEY_TEMPLATE'), ['shard', 'multihash'], [['shard', 'multihash']])
+  const dudewhere = parseTemplate('DUDEWHERE_KEY_TEMPLATE', template('DUDEWHERE_KEY_TEMPLATE'), ['root', 'shard', 'multihash'], [['root'], ['shard', 'multihash']])
+  const blob = parseTemplate('BLOB_KEY_TEMPLATE', template('BLOB_KEY_TEMPLATE'), ['cid', 'multihash'], [['cid', 'multihash']])
+  return {
+    carpark: shard => carpark(shardValues(shard)),
+    satnav: shard => satnav(shardValues(shard)),
+    index: (shard, format) => indexKey(satnav(shardValues(shard)), format),
+    dudewhere: (root, shard) => dudewhere({ ...shardValues(shard), root: root.toString() }),
+    blob: cid => blob({ cid: cid.toString(), multihash: base58btc.encode(cid.multihash.bytes) })
+  }
+}
+
+/** The key layout the buckets have when no templates are configured. */
+export const defaultKeyLayout = keyLayoutFromEnv({})
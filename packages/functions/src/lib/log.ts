@@ -0,0 +1,69 @@
+import crypto from 'node:crypto'
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+/** CloudWatch namespace of the metrics. */
+const METRICS_NAMESPACE = 'sha256it'
+
+type Fields = Record<string, unknown>
+
+export type MetricUnit = 'Bytes' | 'Count' | 'Milliseconds'
+
+const context = new AsyncLocalStorage<Fields>()
+
+/** Header the Lambda handlers use to pass the API Gateway request ID to the request handler. */
+export const REQUEST_ID_HEADER = 'x-request-id'
+
+/** The request ID of a request, or a new one if it does not have one. */
+export const requestID = (request: Request) => request.headers.get(REQUEST_ID_HEADER) ?? crypto.randomUUID()
+
+/**
+ * Run `fn` with fields, such as a request or job ID, that are added to every
+ * log line and metric written while it runs. Fields are merged with those of
+ * any enclosing context.
+ */
+export const withLogContext = <T>(fields: Fields, fn: () => T) =>
+  context.run({ ...context.getStore(), ...fields }, fn)
+
+const write = (level: 'info' | 'warn' | 'error', msg: string, fields?: Fields) => {
+  const line = JSON.stringify({ level, time: new Date().toISOString(), msg, ...context.getStore(), ...fields })
+  if (level === 'info') console.log(line)
+  else if (level === 'warn') console.warn(line)
+  else console.error(line)
+}
+
+const errorFields = (err: unknown) =>
+  err instanceof Error ? { error: err.message, stack: err.stack } : err != null ? { error: String(err) } : {}
+
+/** Writes log lines as JSON. */
+export const log = {
+  info: (msg: string, fields?: Fields) => write('info', msg, fields),
+  warn: (msg: string, err?: unknown, fields?: Fields) => write('warn', msg, { ...fields, ...errorFields(err) }),
+  error: (msg: string, err?: unknown, fields?: Fields) => write('error', msg, { ...fields, ...errorFields(err) })
+}
+
+/**
+ * Write a metric in CloudWatch Embedded Metric Format. The metric is a log
+ * line, so CloudWatch extracts it from Lambda logs, and it can be read from
+ * stdout anywhere else.
+ */
+export const putMetric = (name: string, value: number, unit: MetricUnit, dimensions: Record<string, string> = {}) => {
+  console.log(JSON.stringify({
+    _aws: {
+      Timestamp: Date.now(),
+      CloudWatchMetrics: [{
+        Namespace: METRICS_NAMESPACE,
+        Dimensions: [Object.keys(dimensions)],
+        Metrics: [{ Name: name, Unit: unit }]
+      }]
+    },
+    ...context.getStore(),
+    ...dimensions,
+    [name]: value
+  }))
+}
+
+/** Start a timer. The returned function returns the milliseconds elapsed. */
+export const startTimer = () => {
+  const start = performance.now()
+  return () => Math.round(performance.now() - start)
+}
@@ -0,0 +1,40 @@
+/** Objects of at least this size are copied with a multipart upload. */
+export const MAX_PUT_SIZE = 1024 * 1024 * 1024 * 5
+
+/** Memory of the copy lambda, in MB, as deployed. */
+export const COPY_MEMORY_SIZE = 1024
+
+/** Bytes per second a copy is assumed to transfer, for cost estimates. */
+export const COPY_THROUGHPUT = 1024 * 1024 * 50
+
+/**
+ * How an object would be copied: not at all, as it already exists at the
+ * destination, with a single put, or with a multipart upload.
+ */
+export type CopyMethod = 'skip' | 'put' | 'multipart'
+
+export interface CopyPlanOptions {
+  /** Objects of at least this size are copied with a multipart upload. */
+  maxPutSize?: number
+  /** Memory of the copy lambda, in MB. */
+  memorySize?: number
+  /** Bytes per second a copy is assumed to transfer. */
+  throughput?: number
+}
+
+/** Choose how an object of `size` bytes would be copied, as the copy lambda does. */
+export const planCopy = (size: number, exists: boolean, options?: CopyPlanOptions): CopyMethod => {
+  if (exists) return 'skip'
+  return size < (options?.maxPutSize ?? MAX_PUT_SIZE) ? 'put' : 'multipart'
+}
+
+/**
+ * Estimate the Lambda GB-seconds to copy an object: the lambda memory for as
+ * long as it takes to transfer the object at the assumed throughput. A skipped
+ * object is only HEADed, which is not counted.
+ */
+export const estimateGBSeconds = (size: number, method: CopyMethod, options?: CopyPlanOptions) => {
+  if (method === 'skip') return 0
+  const memory = (options?.memorySize ?? COPY_MEMORY_SIZE) / 1024
+  return memory * size / (options?.throughput ?? COPY_THROUGHPUT)
+}
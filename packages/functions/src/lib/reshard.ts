@@ -0,0 +1,154 @@
+import crypto from 'node:crypto'
+import * as Link from 'multiformats/link'
+import { UnknownLink } from 'multiformats/link'
+import * as Digest from 'multiformats/hashes/digest'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { CARReaderStream, CARWriterStream } from 'carstream'
+import { Block } from 'carstream/api'
+import { encode as encodeVarint } from 'carstream/varint'
+import { Store } from './store'
+
+const CAR_CODEC = 0x0202
+
+/** A CAR written by `splitCAR`. */
+export interface SplitShard {
+  cid: Link.Link<Uint8Array, typeof CAR_CODEC>
+  /** Key of the CAR in the store it was written to. */
+  key: string
+  size: number
+}
+
+export interface SplitResult {
+  /** SHA-256 digest of the input CAR. */
+  digest: Uint8Array
+  /** DAG roots from the input CAR header, which every new CAR also has. */
+  roots: UnknownLink[]
+  shards: SplitShard[]
+}
+
+export interface SplitOptions {
+  /** Maximum bytes in each new CAR. */
+  maxShardSize: number
+  /**
+   * Called with each new CAR when it is complete. The next CAR is not started
+   * until the returned promise resolves, so the CAR may be removed from the
+   * store to bound the space used.
+   */
+  onShard: (shard: SplitShard) => Promise<void>
+}
+
+/**
+ * Split a CAR into CARs of at most `maxShardSize` bytes, each with the blocks
+ * that follow the previous one, in order, and the roots of the input CAR. The
+ * CARs are written to the store with keys `<n>.car`. Blocks are not verified
+ * against their CIDs, but the digest of the input is returned, so it can be
+ * checked against the input CAR CID.
+ */
+export const splitCAR = async (body: ReadableStream<Uint8Array>, store: Store, options: SplitOptions): Promise<SplitResult> => {
+  const hash = crypto.createHash('sha256')
+  const reader = new CARReaderStream()
+  const shards: SplitShard[] = []
+  let roots: UnknownLink[]|undefined
+  let headerSize = 0
+  let current: ShardWriter|undefined
+
+  const finish = async (writer: ShardWriter) => {
+    const shard = await writer.close()
+    shards.push(shard)
+    await options.onShard(shard)
+  }
+
+  await body
+    .pipeThrough(hashStream(hash))
+    .pipeThrough(reader)
+    .pipeTo(new WritableStream({
+      async write (block) {
+        if (!roots) {
+          roots = (await reader.getHeader()).roots
+          headerSize = await carHeaderSize(roots)
+        }
+        const size = blockSize(block)
+        if (headerSize + size > options.maxShardSize) {
+          throw new Error(`block ${block.cid} does not fit in a shard of ${options.maxShardSize} bytes`)
+        }
+        if (current && current.size + size > options.maxShardSize) {
+          await finish(current)
+          current = undefined
+        }
+        current = current ?? createShardWriter(store, `${shards.length}.car`, roots, headerSize)
+        await current.write(block)
+      },
+      async close () {
+        if (current) await finish(current)
+      },
+      async abort () {
+        await current?.abort()
+      }
+    }))
+
+  return {
+    digest: new Uint8Array(hash.digest()),
+    roots: roots ?? (await reader.getHeader()).roots,
+    shards
+  }
+}
+
+interface ShardWriter {
+  /** Bytes written so far. */
+  readonly size: number
+  write (block: Block): Promise<void>
+  close (): Promise<SplitShard>
+  abort (): Promise<void>
+}
+
+const createShardWriter = (store: Store, key: string, roots: UnknownLink[], headerSize: number): ShardWriter => {
+  const hash = crypto.createHash('sha256')
+  const car = new CARWriterStream(roots)
+  const put = store.put(key, car.readable.pipeThrough(hashStream(hash)))
+  put.catch(() => {}) // handled when closed
+  const writer = car.writable.getWriter()
+  let size = headerSize
+
+  return {
+    get size () {
+      return size
+    },
+    async write (block) {
+      size += blockSize(block)
+      await writer.write(block)
+    },
+    async close () {
+      await writer.close()
+      await put
+      const cid = Link.create<Uint8Array, typeof CAR_CODEC, typeof sha256.code>(CAR_CODEC, Digest.create(sha256.code, new Uint8Array(hash.digest())))
+      return { cid, key, size }
+    },
+    async abort () {
+      await writer.abort()
+      await put.catch(() => {})
+      await store.delete(key)
+    }
+  }
+}
+
+/** Bytes in an encoded block: a varint length, the CID and the block data. */
+const blockSize = (block: Block) => {
+  const length = block.cid.bytes.length + block.bytes.length
+  return encodeVarint(length).length + length
+}
+
+/** Bytes in an encoded CAR header with the roots. */
+const carHeaderSize = async (roots: UnknownLink[]) => {
+  // the header is the first chunk output by the writer
+  const reader = new CARWriterStream(roots).readable.getReader()
+  const { value } = await reader.read()
+  await reader.cancel()
+  return value?.length ?? 0
+}
+
+const hashStream = (hash: crypto.Hash) => new TransformStream<Uint8Array, Uint8Array>({
+  transform (chunk, controller) {
+    hash.update(chunk)
+    controller.enqueue(chunk)
+  }
+})
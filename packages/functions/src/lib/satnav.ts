@@ -0,0 +1,349 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { UnknownLink } from 'multiformats/link'
+import { MultihashIndexSortedWriter } from 'cardex/multihash-index-sorted'
+import { IndexSortedWriter } from 'cardex/index-sorted'
+import { encodeUint32LE, encodeVarint } from 'cardex/encoder'
+
+/**
+ * Formats the satnav index of a shard can be written in: CARv2
+ * MultihashIndexSorted, CARv2 IndexSorted, which has the digests of every
+ * multihash code together, and a sharded DAG index, which has the byte range
+ * of the data of every block.
+ */
+export const INDEX_FORMATS = ['multihash-index-sorted', 'index-sorted', 'sharded-dag-index'] as const
+
+export type IndexFormat = typeof INDEX_FORMATS[number]
+
+/** The formats encoded by an `IndexWriter`. */
+export type SortedIndexFormat = Exclude<IndexFormat, 'sharded-dag-index'>
+
+/** The formats written when none are configured. */
+export const DEFAULT_INDEX_FORMATS: IndexFormat[] = ['multihash-index-sorted']
+
+/** Check each name is an index format, in the order given, without duplicates. */
+export const parseIndexFormats = (names: string[]): IndexFormat[] => {
+  const formats: IndexFormat[] = []
+  for (const name of names) {
+    const format = INDEX_FORMATS.find(f => f === name)
+    if (!format) throw new Error(`unknown index format: ${name}`)
+    if (!formats.includes(format)) formats.push(format)
+  }
+  return formats
+}
+
+/**
+ * The index formats in the comma separated `INDEX_FORMATS` env var, or the
+ * default formats if not set.
+ */
+export const indexFormatsFromEnv = (env: Record<string, string|undefined>) => {
+  const names = (env.INDEX_FORMATS ?? '').split(',').map(s => s.trim()).filter(Boolean)
+  return names.length ? parseIndexFormats(names) : DEFAULT_INDEX_FORMATS
+}
+
+/** Number of entries held in memory before they are sorted and written to a temporary file. */
+const RUN_SIZE = 100_000
+/** Bytes read from each temporary file at a time. */
+const READ_SIZE = 64 * 1024
+/** Size of the chunks of the encoded index. */
+const CHUNK_SIZE = 1024 * 1024
+
+interface Entry {
+  digest: Uint8Array
+  offset: number
+}
+
+/** Entries with the same multihash code and digest length, which are encoded together. */
+interface Group {
+  code: number
+  /** Bytes in an encoded entry: the digest followed by a uint64 offset. */
+  width: number
+  count: number
+  /** Entries that have not been written to a run. */
+  entries: Entry[]
+  /** Temporary files of sorted, encoded entries, in the order they were written. */
+  runs: string[]
+}
+
+/**
+ * Writes a satnav (MultihashIndexSorted or IndexSorted) index, with the same
+ * encoding as the cardex writers, but with bounded memory. Entries are sorted
+ * in runs that are written to temporary files, and the runs are merged as the
+ * index is encoded, so the index may be encoded in each format in turn.
+ */
+export interface IndexWriter {
+  add (cid: UnknownLink, offset: number): Promise<void>
+  /** Number of bytes in the encoded index. MultihashIndexSorted if the format is not set. */
+  size (format?: SortedIndexFormat): number
+  /**
+   * Encode the index, as MultihashIndexSorted if the format is not set.
+   * Entries must not be added after this is called.
+   */
+  encode (format?: SortedIndexFormat): ReadableStream<Uint8Array>
+  /** Remove the temporary files. */
+  close (): Promise<void>
+}
+
+export const createIndexWriter = (options?: { dir?: string, runSize?: number }): IndexWriter => {
+  const runSize = options?.runSize ?? RUN_SIZE
+  const groups = new Map<string, Group>()
+  let buffered = 0
+  let dir: string|undefined
+
+  const flush = async () => {
+    dir = dir ?? await fs.promises.mkdtemp(path.join(options?.dir ?? os.tmpdir(), 'satnav-'))
+    for (const group of groups.values()) {
+      if (!group.entries.length) continue
+      const run = path.join(dir, `${group.code}-${group.width}-${group.runs.length}`)
+      await fs.promises.writeFile(run, encodeEntries(sortEntries(group.entries), group.width))
+      group.runs.push(run)
+      group.entries = []
+    }
+    buffered = 0
+  }
+
+  return {
+    async add (cid, offset) {
+      const { code, digest } = cid.multihash
+      const width = digest.length + 8
+      const id = `${code}-${width}`
+      let group = groups.get(id)
+      if (!group) {
+        group = { code, width, count: 0, entries: [], runs: [] }
+        groups.set(id, group)
+      }
+      // copy the digest, so it does not keep the CAR bytes it was read from in memory
+      group.entries.push({ digest: new Uint8Array(digest), offset })
+      group.count++
+      if (++buffered >= runSize) await flush()
+    },
+    size (format = 'multihash-index-sorted') {
+      if (format === 'index-sorted') {
+        let size = encodeVarint(IndexSortedWriter.codec).length + 4
+        for (const [width, entries] of groupsByWidth(groups)) {
+          size += 4 + 8
+          for (const group of entries) size += width * group.count
+        }
+        return size
+      }
+      let size = encodeVarint(MultihashIndexSortedWriter.codec).length + 4
+      for (const entries of groupsByCode(groups).values()) {
+        size += 8 + 4
+        for (const group of entries) size += 4 + 8 + group.width * group.count
+      }
+      return size
+    },
+    encode (format = 'multihash-index-sorted') {
+      const iterator = format === 'index-sorted' ? encodeIndexSorted(groups) : encodeIndex(groups)
+      return new ReadableStream({
+        async pull (controller) {
+          const { done, value } = await iterator.next()
+          if (done) return controller.close()
+          controller.enqueue(value)
+        },
+        async cancel () {
+          await iterator.return(undefined)
+        }
+      })
+    },
+    async close () {
+      if (dir) await fs.promises.rm(dir, { recursive: true, force: true })
+    }
+  }
+}
+
+/** Groups by multihash code, in code order, each in width order. */
+const groupsByCode = (groups: Map<string, Group>) => {
+  const byCode = new Map<number, Group[]>()
+  for (const group of [...groups.values()].sort((a, b) => a.code - b.code || a.width - b.width)) {
+    byCode.set(group.code, [...byCode.get(group.code) ?? [], group])
+  }
+  return byCode
+}
+
+/** Groups by width, in width order, regardless of multihash code. */
+const groupsByWidth = (groups: Map<string, Group>) => {
+  const byWidth = new Map<number, Group[]>()
+  for (const group of [...groups.values()].sort((a, b) => a.width - b.width || a.code - b.code)) {
+    byWidth.set(group.width, [...byWidth.get(group.width) ?? [], group])
+  }
+  return byWidth
+}
+
+async function * encodeIndex (groups: Map<string, Group>) {
+  const chunks = createChunker(CHUNK_SIZE)
+  yield * chunks.append(encodeVarint(MultihashIndexSortedWriter.codec))
+  yield * chunks.append(encodeUint32LE(groupsByCode(groups).size))
+
+  for (const [code, entries] of groupsByCode(groups)) {
+    yield * chunks.append(encodeUint64LE(code))
+    yield * chunks.append(encodeUint32LE(entries.length))
+    for (const group of entries) {
+      yield * chunks.append(encodeUint32LE(group.width))
+      yield * chunks.append(encodeUint64LE(group.width * group.count))
+      for await (const entry of mergeRuns([group])) {
+        yield * chunks.append(entry)
+      }
+    }
+  }
+  yield * chunks.flush()
+}
+
+/** Encode the index as IndexSorted, which has the entries of every code with the same width together. */
+async function * encodeIndexSorted (groups: Map<string, Group>) {
+  const chunks = createChunker(CHUNK_SIZE)
+  const byWidth = groupsByWidth(groups)
+  yield * chunks.append(encodeVarint(IndexSortedWriter.codec))
+  yield * chunks.append(encodeUint32LE(byWidth.size))
+
+  for (const [width, entries] of byWidth) {
+    yield * chunks.append(encodeUint32LE(width))
+    yield * chunks.append(encodeUint64LE(width * entries.reduce((n, group) => n + group.count, 0)))
+    for await (const entry of mergeRuns(entries)) {
+      yield * chunks.append(entry)
+    }
+  }
+  yield * chunks.flush()
+}
+
+/**
+ * Merge the runs of groups with the same width, and the entries that have not
+ * been written to a run, in digest order. Entries with equal digests stay in
+ * the order they were added, as they do in the cardex writer.
+ */
+async function * mergeRuns (groups: Group[]) {
+  const { width } = groups[0]
+  const runs: Array<AsyncIterator<Uint8Array>> = []
+  for (const group of groups) {
+    runs.push(...group.runs.map(run => readRun(run, width)))
+    if (group.entries.length) {
+      runs.push(readEntries(sortEntries(group.entries), width))
+    }
+  }
+
+  const digestLength = width - 8
+  const heap = createHeap<{ entry: Uint8Array, run: number }>((a, b) =>
+    Buffer.compare(a.entry.subarray(0, digestLength), b.entry.subarray(0, digestLength)) || a.run - b.run)
+
+  for (const [run, iterator] of runs.entries()) {
+    const { done, value } = await iterator.next()
+    if (!done) heap.push({ entry: value, run })
+  }
+  while (true) {
+    const head = heap.pop()
+    if (!head) return
+    // the entry is only valid until its run is read again
+    yield head.entry
+    const { done, value } = await runs[head.run].next()
+    if (!done) heap.push({ entry: value, run: head.run })
+  }
+}
+
+const sortEntries = (entries: Entry[]) => entries.sort((a, b) => Buffer.compare(a.digest, b.digest))
+
+const encodeEntries = (entries: Entry[], width: number) => {
+  const bytes = new Uint8Array(width * entries.length)
+  const view = new DataView(bytes.buffer)
+  for (const [i, { digest, offset }] of entries.entries()) {
+    bytes.set(digest, i * width)
+    view.setBigUint64(i * width + digest.length, BigInt(offset), true)
+  }
+  return bytes
+}
+
+async function * readEntries (entries: Entry[], width: number) {
+  for (const entry of entries) {
+    yield encodeEntries([entry], width)
+  }
+}
+
+/** Read the encoded entries in a run file. */
+async function * readRun (run: string, width: number) {
+  const file = await fs.promises.open(run)
+  try {
+    const buffer = new Uint8Array(Math.max(1, Math.floor(READ_SIZE / width)) * width)
+    while (true) {
+      // fill the buffer, so it always holds whole entries
+      let length = 0
+      while (length < buffer.length) {
+        const { bytesRead } = await file.read(buffer, length, buffer.length - length)
+        if (!bytesRead) break
+        length += bytesRead
+      }
+      if (!length) return
+      if (length % width) throw new Error(`truncated index run: ${run}`)
+      for (let offset = 0; offset < length; offset += width) {
+        yield buffer.subarray(offset, offset + width)
+      }
+    }
+  } finally {
+    await file.close()
+  }
+}
+
+const encodeUint64LE = (n: number) => {
+  const bytes = new Uint8Array(8)
+  new DataView(bytes.buffer).setBigUint64(0, BigInt(n), true)
+  return bytes
+}
+
+/** Collects bytes into chunks of `size`. */
+const createChunker = (size: number) => {
+  let chunk = new Uint8Array(size)
+  let length = 0
+  return {
+    * append (bytes: Uint8Array) {
+      let offset = 0
+      while (offset < bytes.length) {
+        const n = Math.min(size - length, bytes.length - offset)
+        chunk.set(bytes.subarray(offset, offset + n), length)
+        length += n
+        offset += n
+        if (length === size) {
+          yield chunk
+          chunk = new Uint8Array(size)
+          length = 0
+        }
+      }
+    },
+    * flush () {
+      if (length) yield chunk.subarray(0, length)
+    }
+  }
+}
+
+/** A binary min heap. */
+const createHeap = <T>(compare: (a: T, b: T) => number) => {
+  const items: T[] = []
+  return {
+    push (item: T) {
+      items.push(item)
+      let i = items.length - 1
+      while (i > 0) {
+        const parent = (i - 1) >> 1
+        if (compare(items[i], items[parent]) >= 0) break
+        ;[items[i], items[parent]] = [items[parent], items[i]]
+        i = parent
+      }
+    },
+    pop (): T|undefined {
+      const top = items[0]
+      const last = items.pop()
+      if (!items.length || last === undefined) return top
+      items[0] = last
+      let i = 0
+      while (true) {
+        const left = 2 * i + 1
+        const right = left + 1
+        let min = i
+        if (left < items.length && compare(items[left], items[min]) < 0) min = left
+        if (right < items.length && compare(items[right], items[min]) < 0) min = right
+        if (min === i) break
+        ;[items[i], items[min]] = [items[min], items[i]]
+        i = min
+      }
+      return top
+    }
+  }
+}
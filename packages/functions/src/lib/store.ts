@@ -0,0 +1,424 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import crypto from 'node:crypto'
+import { Readable } from 'node:stream'
+import { AbortMultipartUploadCommand, CompleteMultipartUploadCommand, CreateMultipartUploadCommand, DeleteObjectCommand, GetObjectCommand, HeadObjectCommand, ListMultipartUploadsCommand, ListPartsCommand, PutObjectCommand, S3Client, UploadPartCommand } from '@aws-sdk/client-s3'
+
+/** An object in a store. */
+export interface ObjectID<S extends ReadableStore = Store> {
+  store: S
+  key: string
+}
+
+export interface ObjectHead {
+  size: number
+  /** Base64 encoded SHA-256 checksum, if one was stored with the object. */
+  checksumSHA256?: string
+  contentType?: string
+  metadata?: Record<string, string>
+}
+
+export interface GetResult {
+  /** Number of bytes in the body. */
+  size: number
+  body: ReadableStream<Uint8Array>
+}
+
+export interface GetOptions {
+  /** Bytes `start` (inclusive) to `end` (exclusive) of the object. */
+  range?: { start: number, end: number }
+}
+
+export interface PutOptions {
+  /** Size of the body, required when the body is a stream. */
+  size?: number
+  /**
+   * Base64 encoded SHA-256 checksum of the body. The put fails, and nothing is
+   * written, if the body does not match.
+   */
+  checksumSHA256?: string
+  contentType?: string
+  metadata?: Record<string, string>
+}
+
+/** Content type and metadata of an object, set when a multipart upload is created. */
+export type MultipartCreateOptions = Pick<PutOptions, 'contentType' | 'metadata'>
+
+export interface UploadedPart {
+  partNumber: number
+  etag?: string
+  checksumSHA256?: string
+}
+
+/** A store that objects can be read from. */
+export interface ReadableStore {
+  /** Identifies the store in logs, e.g. `<region>/<bucket>` for S3. */
+  name: string
+  /** Get the object's size and metadata, or `undefined` if it does not exist. */
+  head (key: string, options?: { checksum?: boolean }): Promise<ObjectHead|undefined>
+  /** Get the object, or `undefined` if it does not exist. */
+  get (key: string, options?: GetOptions): Promise<GetResult|undefined>
+}
+
+export interface MultipartStore {
+  /** Create an upload, returning its ID. */
+  create (key: string, options?: MultipartCreateOptions): Promise<string>
+  uploadPart (key: string, uploadID: string, partNumber: number, body: Uint8Array, options?: { checksumSHA256?: string }): Promise<UploadedPart>
+  complete (key: string, uploadID: string, parts: UploadedPart[]): Promise<void>
+  abort (key: string, uploadID: string): Promise<void>
+  /** IDs of the in progress uploads to the key. */
+  listUploads (key: string): Promise<string[]>
+  listParts (key: string, uploadID: string): Promise<UploadedPart[]>
+}
+
+/** A store that objects can be read from and written to. */
+export interface Store extends ReadableStore {
+  put (key: string, body: Uint8Array|ReadableStream<Uint8Array>, options?: PutOptions): Promise<void>
+  delete (key: string): Promise<void>
+  /** Multipart uploads, for stores that support them. */
+  multipart?: MultipartStore
+}
+
+export interface S3StoreOptions {
+  region: string
+  bucket: string
+  endpoint?: string
+  forcePathStyle?: boolean
+  credentials?: {
+    accessKeyId: string,
+    secretAccessKey: string
+  }
+}
+
+const isNotFound = (err: any) => err.$metadata?.httpStatusCode === 404
+
+/** A store backed by an S3 (compatible) bucket. */
+export const createS3Store = ({ bucket, ...options }: S3StoreOptions): Store => {
+  const client = new S3Client(options)
+  const Bucket = bucket
+
+  return {
+    name: `${options.region}/${bucket}`,
+    async head (key, opts) {
+      try {
+        const res = await client.send(new HeadObjectCommand({
+          Bucket,
+          Key: key,
+          ChecksumMode: opts?.checksum ? 'ENABLED' : undefined
+        }))
+        return { size: res.ContentLength ?? 0, checksumSHA256: res.ChecksumSHA256, contentType: res.ContentType, metadata: res.Metadata }
+      } catch (err: any) {
+        if (!isNotFound(err)) throw err
+      }
+    },
+    async get (key, opts) {
+      const range = opts?.range ? `bytes=${opts.range.start}-${opts.range.end - 1}` : undefined
+      try {
+        const res = await client.send(new GetObjectCommand({ Bucket, Key: key, Range: range }))
+        if (!res.Body) return
+        return { size: res.ContentLength ?? 0, body: res.Body.transformToWebStream() }
+      } catch (err: any) {
+        if (!isNotFound(err)) throw err
+      }
+    },
+    async put (key, body, opts) {
+      await client.send(new PutObjectCommand({
+        Bucket,
+        Key: key,
+        // @ts-expect-error
+        Body: body instanceof Uint8Array ? body : Readable.fromWeb(body),
+        ContentLength: opts?.size ?? (body instanceof Uint8Array ? body.length : undefined),
+        ChecksumSHA256: opts?.checksumSHA256,
+        ContentType: opts?.contentType,
+        Metadata: opts?.metadata
+      }))
+    },
+    async delete (key) {
+      await client.send(new DeleteObjectCommand({ Bucket, Key: key }))
+    },
+    multipart: {
+      async create (key, opts) {
+        const res = await client.send(new CreateMultipartUploadCommand({ Bucket, Key: key, ContentType: opts?.contentType, Metadata: opts?.metadata }))
+        if (!res.UploadId) throw new Error('missing multipart upload ID')
+        return res.UploadId
+      },
+      async uploadPart (key, uploadID, partNumber, body, opts) {
+        const res = await client.send(new UploadPartCommand({
+          Bucket,
+          Key: key,
+          UploadId: uploadID,
+          PartNumber: partNumber,
+          Body: body,
+          ContentLength: body.length,
+          ChecksumSHA256: opts?.checksumSHA256
+        }))
+        return { partNumber, etag: res.ETag, checksumSHA256: opts?.checksumSHA256 }
+      },
+      async complete (key, uploadID, parts) {
+        await client.send(new CompleteMultipartUploadCommand({
+          Bucket,
+          Key: key,
+          UploadId: uploadID,
+          MultipartUpload: {
+            Parts: parts.map(p => ({ PartNumber: p.partNumber, ETag: p.etag, ChecksumSHA256: p.checksumSHA256 }))
+          }
+        }))
+      },
+      async abort (key, uploadID) {
+        await client.send(new AbortMultipartUploadCommand({ Bucket, Key: key, UploadId: uploadID }))
+      },
+      async listUploads (key) {
+        const res = await client.send(new ListMultipartUploadsCommand({ Bucket, Prefix: key }))
+        return (res.Uploads ?? [])
+          .filter(u => u.Key === key && u.UploadId)
+          .map(u => u.UploadId as string)
+      },
+      async listParts (key, uploadID) {
+        const parts: UploadedPart[] = []
+        let marker: string|undefined
+        while (true) {
+          const res = await client.send(new ListPartsCommand({ Bucket, Key: key, UploadId: uploadID, PartNumberMarker: marker }))
+          for (const p of res.Parts ?? []) {
+            parts.push({ partNumber: p.PartNumber ?? 0, etag: p.ETag, checksumSHA256: p.ChecksumSHA256 })
+          }
+          if (!res.IsTruncated) return parts
+          marker = res.NextPartNumberMarker
+        }
+      }
+    }
+  }
+}
+
+const isENOENT = (err: any) => err.code === 'ENOENT'
+
+/**
+ * A store backed by a directory on the local filesystem. Object metadata is
+ * kept in `.meta` and in progress multipart uploads in `.uploads`, both in the
+ * root directory.
+ */
+export const createFSStore = (root: string): Store => {
+  root = path.resolve(root)
+  const metaDir = path.join(root, '.meta')
+  const uploadsDir = path.join(root, '.uploads')
+
+  const objectPath = (key: string) => {
+    const p = path.resolve(root, key)
+    if (!p.startsWith(root + path.sep)) throw new Error(`invalid key: ${key}`)
+    return p
+  }
+  const metaPath = (key: string) => path.join(metaDir, `${path.relative(root, objectPath(key))}.json`)
+  const uploadPath = (uploadID: string) => {
+    if (!/^[\w-]+$/.test(uploadID)) throw new Error(`invalid upload ID: ${uploadID}`)
+    return path.join(uploadsDir, uploadID)
+  }
+
+  /** Write a file via a temporary file, so that readers never see a partial write. */
+  const writeFile = async (file: string, chunks: AsyncIterable<Uint8Array>|Iterable<Uint8Array>, checksumSHA256?: string) => {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true })
+    const tmp = `${file}.${crypto.randomBytes(8).toString('hex')}.tmp`
+    const hash = crypto.createHash('sha256')
+    const out = fs.createWriteStream(tmp)
+    try {
+      for await (const chunk of chunks) {
+        hash.update(chunk)
+        if (!out.write(chunk)) await new Promise<void>(resolve => out.once('drain', () => resolve()))
+      }
+      await new Promise<void>((resolve, reject) => out.end((err?: Error|null) => err ? reject(err) : resolve()))
+      if (checksumSHA256 && hash.digest('base64') !== checksumSHA256) {
+        // named like the error S3 returns, so callers can handle both the same way
+        throw Object.assign(new Error('checksum mismatch'), { name: 'BadDigest' })
+      }
+      await fs.promises.rename(tmp, file)
+    } catch (err) {
+      // a write may still be in progress, and fails once the stream is destroyed
+      out.on('error', () => {})
+      out.destroy()
+      await fs.promises.rm(tmp, { force: true })
+      throw err
+    }
+  }
+
+  const readMeta = async (key: string): Promise<Omit<ObjectHead, 'size'>> => {
+    try {
+      return JSON.parse(await fs.promises.readFile(metaPath(key), 'utf8'))
+    } catch (err: any) {
+      if (!isENOENT(err)) throw err
+      return {}
+    }
+  }
+
+  const writeMeta = async (key: string, meta: Omit<ObjectHead, 'size'>) => {
+    if (!meta.checksumSHA256 && !meta.contentType && !meta.metadata) {
+      return await fs.promises.rm(metaPath(key), { force: true })
+    }
+    await writeFile(metaPath(key), [new TextEncoder().encode(JSON.stringify(meta))])
+  }
+
+  const readUpload = async (uploadID: string): Promise<{ key: string } & MultipartCreateOptions> =>
+    JSON.parse(await fs.promises.readFile(path.join(uploadPath(uploadID), 'upload.json'), 'utf8'))
+
+  const partETag = async (file: string) =>
+    `"${crypto.createHash('md5').update(await fs.promises.readFile(file)).digest('hex')}"`
+
+  return {
+    name: root,
+    async head (key) {
+      try {
+        const stat = await fs.promises.stat(objectPath(key))
+        return { size: stat.size, ...await readMeta(key) }
+      } catch (err: any) {
+        if (!isENOENT(err)) throw err
+      }
+    },
+    async get (key, opts) {
+      const file = objectPath(key)
+      let size
+      try {
+        size = (await fs.promises.stat(file)).size
+      } catch (err: any) {
+        if (!isENOENT(err)) throw err
+        return
+      }
+      const start = opts?.range?.start ?? 0
+      const end = Math.min(opts?.range?.end ?? size, size)
+      const stream = fs.createReadStream(file, { start, end: Math.max(end - 1, start) })
+      const body = end > start
+        ? Readable.toWeb(stream) as ReadableStream<Uint8Array>
+        : new ReadableStream<Uint8Array>({ start: controller => { stream.destroy(); controller.close() } })
+      return { size: Math.max(end - start, 0), body }
+    },
+    async put (key, body, opts) {
+      const chunks = body instanceof Uint8Array ? [body] : Readable.fromWeb(body as import('node:stream/web').ReadableStream<Uint8Array>)
+      await writeFile(objectPath(key), chunks, opts?.checksumSHA256)
+      await writeMeta(key, { checksumSHA256: opts?.checksumSHA256, contentType: opts?.contentType, metadata: opts?.metadata })
+    },
+    async delete (key) {
+      await fs.promises.rm(objectPath(key), { force: true })
+      await fs.promises.rm(metaPath(key), { force: true })
+    },
+    multipart: {
+      async create (key, opts) {
+        objectPath(key) // validate
+        const uploadID = crypto.randomUUID()
+        await fs.promises.mkdir(uploadPath(uploadID), { recursive: true })
+        await fs.promises.writeFile(path.join(uploadPath(uploadID), 'upload.json'), JSON.stringify({ key, contentType: opts?.contentType, metadata: opts?.metadata }))
+        return uploadID
+      },
+      async uploadPart (key, uploadID, partNumber, body, opts) {
+        const upload = await readUpload(uploadID)
+        if (upload.key !== key) throw new Error(`upload ${uploadID} is not for key: ${key}`)
+        // as S3 does
+        if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > 10_000) throw new Error(`invalid part number: ${partNumber}`)
+        const file = path.join(uploadPath(uploadID), `${partNumber}.part`)
+        await writeFile(file, [body], opts?.checksumSHA256)
+        return { partNumber, etag: await partETag(file), checksumSHA256: opts?.checksumSHA256 }
+      },
+      async complete (key, uploadID, parts) {
+        const upload = await readUpload(uploadID)
+        if (upload.key !== key) throw new Error(`upload ${uploadID} is not for key: ${key}`)
+        const files: string[] = []
+        for (const part of parts) {
+          const file = path.join(uploadPath(uploadID), `${part.partNumber}.part`)
+          if (part.etag && part.etag !== await partETag(file)) throw new Error(`invalid part: ${part.partNumber}`)
+          files.push(file)
+        }
+        await writeFile(objectPath(key), (async function * () {
+          for (const file of files) yield * fs.createReadStream(file)
+        })())
+        await writeMeta(key, { contentType: upload.contentType, metadata: upload.metadata })
+        await fs.promises.rm(uploadPath(uploadID), { recursive: true, force: true })
+      },
+      async abort (key, uploadID) {
+        await fs.promises.rm(uploadPath(uploadID), { recursive: true, force: true })
+      },
+      async listUploads (key) {
+        let ids: string[]
+        try {
+          ids = await fs.promises.readdir(uploadsDir)
+        } catch (err: any) {
+          if (!isENOENT(err)) throw err
+          return []
+        }
+        const uploadIDs = []
+        for (const id of ids) {
+          if ((await readUpload(id)).key === key) uploadIDs.push(id)
+        }
+        return uploadIDs
+      },
+      async listParts (key, uploadID) {
+        const files = (await fs.promises.readdir(uploadPath(uploadID))).filter(f => f.endsWith('.part'))
+        const parts: UploadedPart[] = []
+        for (const f of files) {
+          parts.push({ partNumber: parseInt(f), etag: await partETag(path.join(uploadPath(uploadID), f)) })
+        }
+        return parts.sort((a, b) => a.partNumber - b.partNumber)
+      }
+    }
+  }
+}
+
+/**
+ * A read-only store backed by a HTTP server, e.g. an IPFS gateway. Keys are
+ * resolved relative to the base URL.
+ */
+export const createHTTPStore = (base: URL|string, options?: { fetch?: typeof globalThis.fetch }): ReadableStore => {
+  const baseURL = new URL(base)
+  if (!baseURL.pathname.endsWith('/')) baseURL.pathname += '/'
+  const fetch = options?.fetch ?? globalThis.fetch
+  const objectURL = (key: string) => new URL(key.split('/').map(encodeURIComponent).join('/'), baseURL)
+
+  return {
+    name: baseURL.toString().replace(/\/$/, ''),
+    async head (key) {
+      const res = await fetch(objectURL(key), { method: 'HEAD' })
+      if (res.status === 404) return
+      if (!res.ok) throw new Error(`unexpected HEAD status: ${res.status}`)
+      return { size: contentLength(res) }
+    },
+    async get (key, opts) {
+      const headers: Record<string, string> = {}
+      if (opts?.range) headers.Range = `bytes=${opts.range.start}-${opts.range.end - 1}`
+      const res = await fetch(objectURL(key), { headers })
+      if (res.status === 404) return
+      if (!res.ok || !res.body) throw new Error(`unexpected GET status: ${res.status}`)
+      if (opts?.range && res.status !== 206) {
+        await res.body.cancel()
+        throw new Error('server does not support range requests')
+      }
+      let size
+      try {
+        size = contentLength(res)
+      } catch (err) {
+        await res.body.cancel()
+        throw err
+      }
+      return { size, body: res.body }
+    }
+  }
+}
+
+/**
+ * The size of a response body. Objects are copied with their size known up
+ * front, so a response without one, e.g. a chunked response, is an error.
+ */
+const contentLength = (res: Response) => {
+  const size = parseInt(res.headers.get('Content-Length') ?? '')
+  if (!Number.isSafeInteger(size) || size < 0) throw new Error('missing Content-Length')
+  return size
+}
+
+/**
+ * The store that source objects in a bucket are read from: a directory named
+ * for the bucket in `SOURCE_DIR`, a path named for the bucket on the
+ * `SOURCE_URL` HTTP server, or by default the S3 bucket in the region.
+ */
+export const createSourceStore = (region: string, bucket: string, env: Record<string, string|undefined>): ReadableStore => {
+  if (env.SOURCE_DIR && env.SOURCE_URL) throw new Error('only one of SOURCE_DIR or SOURCE_URL may be set')
+  if (env.SOURCE_DIR) return createFSStore(path.join(env.SOURCE_DIR, bucket))
+  if (env.SOURCE_URL) {
+    const base = new URL(env.SOURCE_URL)
+    if (!base.pathname.endsWith('/')) base.pathname += '/'
+    return createHTTPStore(new URL(encodeURIComponent(bucket), base))
+  }
+  return createS3Store({ region, bucket })
+}
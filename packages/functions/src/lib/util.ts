@@ -6,7 +6,24 @@ export const notNully = (obj: Record<string, string|undefined>, k: string, msg =
 
 export const mustGetEnv = (env: Record<string, string|undefined>, k: string) => notNully(env, k, 'missing enviornment variable')
 
-export const errorResponse = (message: string, statusCode = 500) => ({
+export const errorResponse = (message: string, statusCode = 500, details?: Record<string, unknown>) => ({
   statusCode,
-  body: JSON.stringify({ ok: false, error: message })
+  body: JSON.stringify({ ok: false, error: message, ...details })
 })
+
+/**
+ * Map items with an async function, running at most `concurrency` at a time.
+ * Results are in the same order as the items.
+ */
+export const mapConcurrent = async <T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>) => {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++
+      results[i] = await fn(items[i])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker))
+  return results
+}
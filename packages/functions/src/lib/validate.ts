@@ -0,0 +1,121 @@
+import { errorResponse } from './util'
+
+/** Environment variables that configure the source policy. */
+export const SOURCE_POLICY_ENV_VARS = [
+  'SOURCE_REGIONS',
+  'SOURCE_BUCKETS',
+  'SOURCE_KEY_PREFIXES',
+  'SOURCE_KEY_SUFFIXES',
+  'SOURCE_BLOB_KEY_SUFFIXES',
+  'SOURCE_MAX_OBJECT_SIZE'
+] as const
+
+/** Error codes returned in the body of request validation error responses. */
+export type ValidationErrorCode =
+  | 'MISSING_PARAMETER'
+  | 'INVALID_PARAMETER'
+  | 'INVALID_REGION'
+  | 'INVALID_BUCKET'
+  | 'INVALID_KEY'
+  | 'OBJECT_TOO_LARGE'
+  | 'BATCH_TOO_LARGE'
+
+/** Which source objects the handlers are allowed to read. */
+export interface SourcePolicy {
+  regions: string[]
+  /** Bucket names, or patterns where `*` matches any characters. */
+  buckets: string[]
+  /** Allowed key prefixes. Any key is allowed if empty. */
+  keyPrefixes: string[]
+  /** Allowed key suffixes. Any key is allowed if empty. */
+  keySuffixes: string[]
+  /** Allowed key suffixes of blobs. Any key is allowed if empty. */
+  blobKeySuffixes: string[]
+  /** Maximum size of a source object in bytes. */
+  maxObjectSize?: number
+}
+
+export interface SourceObject {
+  region: string
+  bucket: string
+  key: string
+}
+
+/** Kind of source object: a CAR shard, or a blob of any other bytes. */
+export type SourceKind = 'car' | 'blob'
+
+export type ValidationResult<T> =
+  | { ok: T, error?: undefined }
+  | { ok?: undefined, error: ReturnType<typeof errorResponse> }
+
+const DEFAULT_SOURCE_REGIONS = 'us-east-2,us-west-2'
+const DEFAULT_SOURCE_BUCKETS = 'dotstorage*'
+const DEFAULT_SOURCE_KEY_SUFFIXES = '.car'
+
+const list = (value: string) => value.split(',').map(s => s.trim()).filter(Boolean)
+
+/** Create a source policy from environment variables, falling back to defaults. */
+export const sourcePolicyFromEnv = (env: Record<string, string|undefined>): SourcePolicy => ({
+  regions: list(env.SOURCE_REGIONS ?? DEFAULT_SOURCE_REGIONS),
+  buckets: list(env.SOURCE_BUCKETS ?? DEFAULT_SOURCE_BUCKETS),
+  keyPrefixes: list(env.SOURCE_KEY_PREFIXES ?? ''),
+  keySuffixes: list(env.SOURCE_KEY_SUFFIXES ?? DEFAULT_SOURCE_KEY_SUFFIXES),
+  blobKeySuffixes: list(env.SOURCE_BLOB_KEY_SUFFIXES ?? ''),
+  maxObjectSize: env.SOURCE_MAX_OBJECT_SIZE ? parseInt(env.SOURCE_MAX_OBJECT_SIZE) : undefined
+})
+
+export const validationError = (message: string, code: ValidationErrorCode, statusCode = 400) =>
+  errorResponse(message, statusCode, { code })
+
+export const missingParameter = (name: string) =>
+  validationError(`Missing "${name}" search parameter`, 'MISSING_PARAMETER')
+
+export const invalidParameter = (name: string, message = `Invalid "${name}" search parameter`) =>
+  validationError(message, 'INVALID_PARAMETER')
+
+const matches = (name: string, pattern: string) => {
+  if (!pattern.includes('*')) return name === pattern
+  const regex = pattern.split('*').map(s => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')
+  return new RegExp(`^${regex}$`).test(name)
+}
+
+/** Validate the `kind` search parameter, which is `car` if not set. */
+export const validateKind = (searchParams: URLSearchParams): ValidationResult<SourceKind> => {
+  const kind = searchParams.get('kind') ?? 'car'
+  if (kind !== 'car' && kind !== 'blob') return { error: invalidParameter('kind', 'Kind must be "car" or "blob"') }
+  return { ok: kind }
+}
+
+/**
+ * Validate the source object search parameters against the policy. Blob keys
+ * are checked against the blob key suffixes instead of the CAR key suffixes.
+ */
+export const validateSource = (searchParams: URLSearchParams, policy: SourcePolicy, kind: SourceKind = 'car'): ValidationResult<SourceObject> => {
+  const region = searchParams.get('region')
+  if (!region) return { error: missingParameter('region') }
+  if (!policy.regions.includes(region)) return { error: validationError('Invalid region', 'INVALID_REGION') }
+
+  const bucket = searchParams.get('bucket')
+  if (!bucket) return { error: missingParameter('bucket') }
+  if (!policy.buckets.some(p => matches(bucket, p))) return { error: validationError('Invalid bucket', 'INVALID_BUCKET') }
+
+  const key = searchParams.get('key')
+  if (!key) return { error: missingParameter('key') }
+  if (policy.keyPrefixes.length && !policy.keyPrefixes.some(p => key.startsWith(p))) {
+    return { error: validationError('Invalid key prefix', 'INVALID_KEY') }
+  }
+  const keySuffixes = kind === 'blob' ? policy.blobKeySuffixes : policy.keySuffixes
+  if (keySuffixes.length && !keySuffixes.some(s => key.endsWith(s))) {
+    return { error: validationError(`Only keys ending ${keySuffixes.join(', ')} supported`, 'INVALID_KEY') }
+  }
+
+  return { ok: { region, bucket, key } }
+}
+
+/** Validate the size of a source object against the policy. */
+export const validateObjectSize = (size: number, policy: Pick<SourcePolicy, 'maxObjectSize'>): ValidationResult<number> => {
+  if (policy.maxObjectSize != null && size > policy.maxObjectSize) {
+    return { error: validationError(`Object size ${size} exceeds maximum of ${policy.maxObjectSize}`, 'OBJECT_TOO_LARGE', 413) }
+  }
+  return { ok: size }
+}
@@ -0,0 +1,312 @@
+import crypto from 'node:crypto'
+import { ApiHandler } from 'sst/node/api'
+import { Config } from 'sst/node/config'
+import * as Link from 'multiformats/link'
+import { UnknownLink } from 'multiformats/link'
+import * as Digest from 'multiformats/hashes/digest'
+import { base58btc } from 'multiformats/bases/base58'
+import { equals } from 'multiformats/bytes'
+import { CARReaderStream } from 'carstream'
+import { MultihashIndexSortedReader } from 'cardex/multihash-index-sorted'
+import { MultihashIndexItem } from 'cardex/multihash-index-sorted/api'
+import { IndexSortedReader } from 'cardex/index-sorted'
+import { errorResponse, mustGetEnv } from './lib/util'
+import { verifyRequest } from './lib/auth'
+import { ObjectID, ReadableStore } from './lib/store'
+import { shardDestinations } from './lib/destinations'
+import { defaultKeyLayout, indexKey, keyLayoutFromEnv, KeyLayout } from './lib/keys'
+import { indexFormatsFromEnv, parseIndexFormats, IndexFormat, SortedIndexFormat, DEFAULT_INDEX_FORMATS, INDEX_FORMATS } from './lib/satnav'
+import { decodeDAGIndex, Position } from './lib/dag-index'
+import { missingParameter, invalidParameter } from './lib/validate'
+import { log, putMetric, requestID, startTimer, withLogContext, REQUEST_ID_HEADER } from './lib/log'
+
+const CAR_CODEC = 0x0202
+
+interface Check {
+  ok: boolean
+  error?: string
+}
+
+interface IndexCheck extends Check {
+  entries?: number
+}
+
+export interface VerifyResult {
+  /** The CAR exists and its SHA-256 hash matches the shard CID. */
+  car: Check & { size?: number, blocks?: number }
+  /**
+   * The index decodes and has the CAR offset of every block, in every format.
+   * `entries` is the number of entries in the index in the first format.
+   */
+  index: Check & { entries?: number, formats?: Partial<Record<IndexFormat, IndexCheck>> }
+  /** A link exists from every DAG root to the shard. */
+  link: Check & { roots?: UnknownLink[] }
+  /** All checks passed. */
+  valid: boolean
+}
+
+export interface VerifyOptions {
+  /** DAG root CIDs the shard should be linked from. Read from the CAR header if not set. */
+  roots?: UnknownLink[]
+  /** Layout of the dudewhere bucket. The default layout if not set. */
+  keys?: KeyLayout
+  /**
+   * Formats of the index to verify, each at its own key, given the key of the
+   * index in the default format. The default formats if not set.
+   */
+  indexFormats?: IndexFormat[]
+}
+
+export const handler = ApiHandler(event => _handler.call(null, new Request(`http://localhost/?${event.rawQueryString}`, {
+  headers: { [REQUEST_ID_HEADER]: event.requestContext.requestId }
+}), {
+  ...process.env,
+  // @ts-expect-error
+  REQUEST_SIGNING_KEY: Config.REQUEST_SIGNING_KEY,
+  // @ts-expect-error
+  DEST_ACCESS_KEY_ID: Config.DEST_ACCESS_KEY_ID,
+  // @ts-expect-error
+  DEST_SECRET_ACCESS_KEY: Config.DEST_SECRET_ACCESS_KEY
+}))
+
+/**
+ * Verify the carpark, satnav and dudewhere artifacts of a copied shard. Each
+ * check is reported separately, and the response is 200 whether or not the
+ * shard is valid.
+ */
+export const _handler = (request: Request, env: Record<string, string|undefined>) =>
+  withLogContext({ requestId: requestID(request) }, () => handleRequest(request, env))
+
+const handleRequest = async (request: Request, env: Record<string, string|undefined>) => {
+  try {
+    const url = new URL(request.url)
+    const authError = verifyRequest(url, 'verify', mustGetEnv(env, 'REQUEST_SIGNING_KEY'))
+    if (authError) return authError
+    const { searchParams } = url
+
+    const shardstr = searchParams.get('shard')
+    if (!shardstr) return missingParameter('shard')
+    let shard: UnknownLink
+    let roots: UnknownLink[]|undefined
+    try {
+      shard = Link.parse(shardstr)
+      const rootstrs = searchParams.getAll('root')
+      roots = rootstrs.length ? rootstrs.map(r => Link.parse(r).toV1()) : undefined
+    } catch {
+      return invalidParameter('shard', 'Invalid CID')
+    }
+    if (shard.code !== CAR_CODEC) return invalidParameter('shard', 'Not a CAR file hash')
+    const unknownFormat = searchParams.getAll('index').find(name => !INDEX_FORMATS.some(format => format === name))
+    if (unknownFormat != null) return invalidParameter('index', `Unknown index format "${unknownFormat}"`)
+    const indexFormats = searchParams.getAll('index').length ? parseIndexFormats(searchParams.getAll('index')) : indexFormatsFromEnv(env)
+
+    const [car, index, links] = shardDestinations(env, shard)
+    const elapsed = startTimer()
+    const result = await withLogContext({ shard: shard.toString() }, () => verify(shard, car, index, links, { roots, keys: keyLayoutFromEnv(env), indexFormats }))
+    const ms = elapsed()
+    putMetric('StageDuration', ms, 'Milliseconds', { Stage: 'verify' })
+    if (!result.valid) putMetric('IntegrityFailures', 1, 'Count')
+    const timing = searchParams.get('timing') === 'true' ? { timing: { verify: ms } } : {}
+    return { statusCode: 200, body: JSON.stringify({ ok: true, shard: encodeLink(shard), ...encodeResult(result), ...timing }) }
+  } catch (err: any) {
+    log.error('verify request failed', err)
+    return errorResponse(err.message, 500)
+  }
+}
+
+/**
+ * Verify a copied shard: stream the CAR and check its hash matches the shard
+ * CID, check every entry in the index, in each format, has the offset of the
+ * block in the CAR, and check the link from each DAG root to the shard exists.
+ */
+export const verify = async (shard: UnknownLink, car: ObjectID<ReadableStore>, index: ObjectID<ReadableStore>, links: ReadableStore, options?: VerifyOptions): Promise<VerifyResult> => {
+  const carCheck = await verifyCAR(shard, car)
+  const roots = options?.roots ?? carCheck.roots
+  const indexCheck = carCheck.offsets && carCheck.positions
+    ? await verifyIndexes(shard, index, { offsets: carCheck.offsets, positions: carCheck.positions, roots }, options?.indexFormats ?? DEFAULT_INDEX_FORMATS)
+    : { ok: false, error: 'CAR not readable' }
+
+  const linkCheck = roots
+    ? await verifyLinks(shard, roots, links, options?.keys ?? defaultKeyLayout)
+    : { ok: false, error: 'unknown DAG roots' }
+
+  const { ok, error, size, blocks } = carCheck
+  return {
+    car: { ok, error, size, blocks },
+    index: indexCheck,
+    link: linkCheck,
+    valid: carCheck.ok && indexCheck.ok && linkCheck.ok
+  }
+}
+
+/** Block offsets in a CAR, by base58btc encoded multihash. */
+type BlockOffsets = Map<string, number[]>
+
+/** Position of the data of the first of each block in a CAR, by base58btc encoded multihash. */
+type BlockPositions = Map<string, Position>
+
+const verifyCAR = async (shard: UnknownLink, car: ObjectID<ReadableStore>): Promise<VerifyResult['car'] & { offsets?: BlockOffsets, positions?: BlockPositions, roots?: UnknownLink[] }> => {
+  log.info('GetObject', { src: `${car.store.name}/${car.key}` })
+  const res = await car.store.get(car.key)
+  if (!res) return { ok: false, error: 'not found' }
+
+  const hash = crypto.createHash('sha256')
+  const offsets: BlockOffsets = new Map()
+  const positions: BlockPositions = new Map()
+  const reader = new CARReaderStream()
+  let blocks = 0
+  try {
+    await res.body
+      .pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform (chunk, controller) {
+          hash.update(chunk)
+          controller.enqueue(chunk)
+        }
+      }))
+      .pipeThrough(reader)
+      .pipeTo(new WritableStream({
+        write (block) {
+          const key = base58btc.encode(block.cid.multihash.bytes)
+          offsets.set(key, [...offsets.get(key) ?? [], block.offset])
+          if (!positions.has(key)) positions.set(key, [block.offset + block.length - block.bytes.length, block.bytes.length])
+          blocks++
+        }
+      }))
+  } catch (err: any) {
+    return { ok: false, size: res.size, error: `invalid CAR: ${err.message}` }
+  }
+
+  const { roots } = await reader.getHeader()
+  const result = { size: res.size, blocks, offsets, positions, roots: roots.map(r => r.toV1()) }
+  if (!equals(new Uint8Array(hash.digest()), shard.multihash.digest)) {
+    return { ...result, ok: false, error: 'hash mismatch' }
+  }
+  return { ...result, ok: true }
+}
+
+/** The blocks of a CAR, to check an index against. */
+interface IndexedCAR {
+  offsets: BlockOffsets
+  positions: BlockPositions
+  roots?: UnknownLink[]
+}
+
+/**
+ * Verify the index in each format, at the key for the format. The check fails
+ * with the error of the first format that fails.
+ */
+const verifyIndexes = async (shard: UnknownLink, index: ObjectID<ReadableStore>, car: IndexedCAR, formats: IndexFormat[]): Promise<VerifyResult['index']> => {
+  const formatChecks: Partial<Record<IndexFormat, IndexCheck>> = {}
+  for (const format of formats) {
+    const obj = { store: index.store, key: indexKey(index.key, format) }
+    formatChecks[format] = format === 'sharded-dag-index'
+      ? await verifyDAGIndex(shard, obj, car)
+      : await verifyIndex(obj, car.offsets, format)
+  }
+  const checks = Object.entries(formatChecks)
+  const failed = checks.find(([, check]) => !check.ok)
+  return {
+    ok: !failed,
+    ...(failed ? { error: `${failed[0]}: ${failed[1].error}` } : {}),
+    entries: checks[0]?.[1].entries,
+    formats: formatChecks
+  }
+}
+
+const verifyIndex = async (index: ObjectID<ReadableStore>, offsets: BlockOffsets, format: SortedIndexFormat): Promise<IndexCheck> => {
+  log.info('GetObject', { src: `${index.store.name}/${index.key}` })
+  const res = await index.store.get(index.key)
+  if (!res) return { ok: false, error: 'not found' }
+
+  // IndexSorted entries have the digest without the multihash code
+  const keyOffsets = format === 'index-sorted' ? digestOffsets(offsets) : offsets
+  const indexed = new Set<string>()
+  const bodyReader = res.body.getReader()
+  let entries = 0
+  try {
+    const reader = format === 'index-sorted'
+      ? IndexSortedReader.createReader({ reader: bodyReader })
+      : MultihashIndexSortedReader.createReader({ reader: bodyReader })
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      entries++
+      const key = base58btc.encode(format === 'index-sorted' ? value.digest : (value as MultihashIndexItem).multihash.bytes)
+      if (!keyOffsets.get(key)?.includes(value.offset)) {
+        await bodyReader.cancel()
+        return { ok: false, entries, error: `offset mismatch for ${key}` }
+      }
+      indexed.add(key)
+    }
+  } catch (err: any) {
+    return { ok: false, entries, error: `invalid index: ${err.message}` }
+  }
+
+  const missing = keyOffsets.size - indexed.size
+  if (missing) return { ok: false, entries, error: `${missing} blocks not indexed` }
+  return { ok: true, entries }
+}
+
+/** Block offsets by base58btc encoded digest, for blocks with any multihash code. */
+const digestOffsets = (offsets: BlockOffsets) => {
+  const byDigest: BlockOffsets = new Map()
+  for (const [key, blockOffsets] of offsets) {
+    const digest = base58btc.encode(Digest.decode(base58btc.decode(key)).digest)
+    byDigest.set(digest, [...byDigest.get(digest) ?? [], ...blockOffsets])
+  }
+  return byDigest
+}
+
+/**
+ * Verify a sharded DAG index has the first DAG root as its content, and a blob
+ * index for the shard with the position of every block.
+ */
+const verifyDAGIndex = async (shard: UnknownLink, index: ObjectID<ReadableStore>, car: IndexedCAR): Promise<IndexCheck> => {
+  log.info('GetObject', { src: `${index.store.name}/${index.key}` })
+  const res = await index.store.get(index.key)
+  if (!res) return { ok: false, error: 'not found' }
+
+  let decoded
+  try {
+    decoded = await decodeDAGIndex(res.body)
+  } catch (err: any) {
+    return { ok: false, error: `invalid index: ${err.message}` }
+  }
+  const root = car.roots?.[0]
+  if (root && decoded.content.toString() !== root.toString()) {
+    return { ok: false, error: `content mismatch: ${decoded.content}` }
+  }
+  const blobIndex = decoded.shards.find(s => equals(s.multihash, shard.multihash.bytes))
+  if (!blobIndex) return { ok: false, error: 'shard not indexed' }
+
+  // the blob index also has the position of the shard itself
+  const entries = blobIndex.slices.size
+  for (const [key, [offset, length]] of blobIndex.slices) {
+    if (key === base58btc.encode(shard.multihash.bytes)) continue
+    const position = car.positions.get(key)
+    if (!position || position[0] !== offset || position[1] !== length) {
+      return { ok: false, entries, error: `position mismatch for ${key}` }
+    }
+  }
+  const missing = [...car.positions.keys()].filter(key => !blobIndex.slices.has(key)).length
+  if (missing) return { ok: false, entries, error: `${missing} blocks not indexed` }
+  return { ok: true, entries }
+}
+
+const verifyLinks = async (shard: UnknownLink, roots: UnknownLink[], links: ReadableStore, keys: KeyLayout): Promise<VerifyResult['link']> => {
+  for (const root of roots) {
+    const key = keys.dudewhere(root, shard)
+    log.info('HeadObject', { src: `${links.name}/${key}` })
+    if (!await links.head(key)) {
+      return { ok: false, roots, error: `missing link ${key}` }
+    }
+  }
+  return { ok: true, roots }
+}
+
+const encodeLink = (link: UnknownLink) => ({ '/': link.toString() })
+
+const encodeResult = (result: VerifyResult) => ({
+  ...result,
+  link: { ...result.link, roots: result.link.roots?.map(encodeLink) }
+})
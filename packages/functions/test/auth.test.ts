@@ -0,0 +1,88 @@
+import { expect, test } from 'vitest'
+import { signRequest, verifyRequest } from '../src/lib/auth'
+import { _handler as hashHandler } from '../src/hash'
+
+const key = 'test-signing-key'
+const now = 1_700_000_000
+
+const signedURL = (options?: Parameters<typeof signRequest>[3]) => {
+  const url = new URL('http://localhost/')
+  url.searchParams.set('region', 'us-west-2')
+  url.searchParams.set('bucket', 'dotstorage-prod-0')
+  url.searchParams.set('key', 'complete/bafy.car')
+  return signRequest(url, 'copy', key, { now, ...options })
+}
+
+const errorCode = (res?: { body: string }) => res && JSON.parse(res.body).code
+
+test('accepts a signed request', () => {
+  expect(verifyRequest(signedURL(), 'copy', key, { now })).toBeUndefined()
+})
+
+test('accepts signed parameters in any order', () => {
+  const url = signedURL()
+  const reordered = new URL(`http://localhost/?${new URLSearchParams([...url.searchParams].reverse())}`)
+  expect(verifyRequest(reordered, 'copy', key, { now })).toBeUndefined()
+})
+
+test('rejects an unsigned request', () => {
+  const url = new URL('http://localhost/?region=us-west-2&bucket=dotstorage-prod-0&key=complete/bafy.car')
+  const res = verifyRequest(url, 'copy', key, { now })
+  expect(res?.statusCode).toBe(401)
+  expect(errorCode(res)).toBe('MISSING_SIGNATURE')
+})
+
+test('rejects a bad signature', () => {
+  const tampered = signedURL()
+  tampered.searchParams.set('key', 'complete/other.car')
+  expect(errorCode(verifyRequest(tampered, 'copy', key, { now }))).toBe('INVALID_SIGNATURE')
+
+  expect(errorCode(verifyRequest(signedURL(), 'copy', 'wrong-key', { now }))).toBe('INVALID_SIGNATURE')
+
+  const garbage = signedURL()
+  garbage.searchParams.set('signature', 'not hex')
+  expect(errorCode(verifyRequest(garbage, 'copy', key, { now }))).toBe('INVALID_SIGNATURE')
+})
+
+test('rejects a request with a modified body', () => {
+  const body = '{"key":"complete/bafy.car"}\n'
+  const url = signedURL({ body })
+  expect(errorCode(verifyRequest(url, 'copy', key, { now, body: body + body }))).toBe('INVALID_SIGNATURE')
+  expect(errorCode(verifyRequest(url, 'copy', key, { now }))).toBe('INVALID_SIGNATURE')
+  expect(verifyRequest(url, 'copy', key, { now, body })).toBeUndefined()
+})
+
+test('rejects a signature for a different action', () => {
+  expect(errorCode(verifyRequest(signedURL(), 'hash', key, { now }))).toBe('INVALID_SIGNATURE')
+})
+
+test('rejects a replayed request', () => {
+  const url = signedURL()
+  expect(verifyRequest(url, 'copy', key, { now })).toBeUndefined()
+  expect(errorCode(verifyRequest(url, 'copy', key, { now: now + 1 }))).toBe('REPLAYED')
+})
+
+test('rejects an expired request', () => {
+  const url = signedURL({ expiresIn: 60 })
+  expect(errorCode(verifyRequest(url, 'copy', key, { now: now + 60 * 3 }))).toBe('EXPIRED')
+})
+
+test('tolerates small clock skew', () => {
+  // client clock is behind, so the signature appears to have just expired
+  expect(verifyRequest(signedURL({ expiresIn: 60 }), 'copy', key, { now: now + 90 })).toBeUndefined()
+  // client clock is ahead
+  expect(verifyRequest(signedURL({ now: now + 30 }), 'copy', key, { now })).toBeUndefined()
+})
+
+test('rejects a request that expires too far in the future', () => {
+  const url = signedURL({ expiresIn: 60 * 60 })
+  expect(errorCode(verifyRequest(url, 'copy', key, { now }))).toBe('EXPIRY_TOO_FAR')
+  // client clock is far ahead
+  expect(errorCode(verifyRequest(signedURL({ now: now + 60 * 60 }), 'copy', key, { now }))).toBe('EXPIRY_TOO_FAR')
+})
+
+test('hash handler rejects unsigned requests', async () => {
+  const res = await hashHandler(new Request('http://localhost/?region=us-west-2&bucket=dotstorage-prod-0&key=complete/bafy.car'), { REQUEST_SIGNING_KEY: key })
+  expect(res.statusCode).toBe(401)
+  expect(errorCode(res)).toBe('MISSING_SIGNATURE')
+})
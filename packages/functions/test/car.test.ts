@@ -0,0 +1,81 @@
+import { expect, test, afterEach } from 'vitest'
+import fs from 'node:fs'
+import { Readable } from 'node:stream'
+import { CARReaderStream } from 'carstream'
+import { encodeTestCAR, generateTestCAR } from './helpers/car'
+import { validateCAR } from '../src/lib/car'
+
+let paths: string[] = []
+
+afterEach(async () => {
+  await Promise.all(paths.map(p => fs.promises.rm(p)))
+  paths = []
+})
+
+const toStream = (bytes: Uint8Array) => new ReadableStream<Uint8Array>({
+  start (controller) {
+    controller.enqueue(bytes)
+    controller.close()
+  }
+})
+
+const blockOffsets = async (bytes: Uint8Array) => {
+  const offsets: Array<{ offset: number, length: number, size: number }> = []
+  await toStream(bytes)
+    .pipeThrough(new CARReaderStream())
+    .pipeTo(new WritableStream({ write: b => { offsets.push({ offset: b.offset, length: b.length, size: b.bytes.length }) } }))
+  return offsets
+}
+
+test('validates a CAR', async () => {
+  const car = await generateTestCAR(1024 * 1024 * 3)
+  paths.push(car.path)
+
+  const bytes = await fs.promises.readFile(car.path)
+  const blocks = await blockOffsets(bytes)
+  const res = await validateCAR(Readable.toWeb(fs.createReadStream(car.path)) as ReadableStream<Uint8Array>)
+
+  expect(res.valid).toBe(true)
+  expect(res.roots.map(String)).toEqual([car.root.toString()])
+  expect(res.blocks).toBe(blocks.length)
+  expect(res.blockBytes).toBe(blocks.reduce((total, b) => total + b.size, 0))
+  expect(res.invalidOffset).toBeUndefined()
+})
+
+test('reports the offset of a corrupt block', async () => {
+  const { bytes } = await encodeTestCAR([1024, 1024 * 64, 1024 * 16])
+  const blocks = await blockOffsets(bytes)
+  expect(blocks).toHaveLength(3)
+  // corrupt a block after the first, so the blocks before it are counted
+  const target = blocks[1]
+  bytes[target.offset + target.length - 1] ^= 0xff
+
+  const res = await validateCAR(toStream(bytes))
+
+  expect(res.valid).toBe(false)
+  expect(res.invalidOffset).toBe(target.offset)
+  expect(res.blocks).toBe(blocks.length)
+})
+
+test('reports the offset of a truncated block', async () => {
+  const { bytes } = await encodeTestCAR([1024, 1024 * 64, 1024 * 16])
+  const blocks = await blockOffsets(bytes)
+  const last = blocks[blocks.length - 1]
+
+  const res = await validateCAR(toStream(bytes.subarray(0, bytes.length - 1)))
+
+  expect(res.valid).toBe(false)
+  expect(res.invalidOffset).toBe(last.offset)
+  expect(res.blocks).toBe(blocks.length - 1)
+})
+
+test('reports the offset of a truncated first block', async () => {
+  const { bytes } = await encodeTestCAR([1024])
+  const [first] = await blockOffsets(bytes)
+
+  const res = await validateCAR(toStream(bytes.subarray(0, bytes.length - 1)))
+
+  expect(res.valid).toBe(false)
+  expect(res.invalidOffset).toBe(first.offset)
+  expect(res.blocks).toBe(0)
+})
@@ -0,0 +1,61 @@
+import { expect, test } from 'vitest'
+import { signRequest } from '../src/lib/auth'
+import { _handler } from '../src/copy'
+
+const key = 'test-signing-key'
+const env = {
+  REQUEST_SIGNING_KEY: key,
+  DEST_ENDPOINT: 'http://127.0.0.1:9000',
+  DEST_REGION: 'auto',
+  CARPARK_BUCKET: 'carpark',
+  SATNAV_BUCKET: 'satnav',
+  DUDEWHERE_BUCKET: 'dudewhere'
+}
+
+const batchRequest = (body: string) => {
+  const url = signRequest(new URL('http://localhost/'), 'copy', key, { body })
+  return new Request(url, { method: 'POST', body })
+}
+
+test('responds with a line per batch item', async () => {
+  const items = [
+    { region: 'eu-west-1', bucket: 'dotstorage-prod-0', key: 'complete/a.car', cid: { '/': 'bagbaieraaosiqlj4gia2lx35dl7ofqynk7xs47aijrnyrfwny6nea4i6srua' } },
+    { region: 'us-west-2', bucket: 'dotstorage-prod-0', key: 'complete/b.car' }
+  ]
+  const body = items.map(i => JSON.stringify(i)).join('\n') + '\nnot json\n'
+  const res = await _handler(batchRequest(body), env)
+  expect(res.statusCode).toBe(200)
+
+  const lines = res.body.trim().split('\n').map(l => JSON.parse(l))
+  expect(lines).toHaveLength(3)
+  expect(lines[0]).toMatchObject({ ...items[0], code: 'INVALID_REGION' })
+  expect(lines[1]).toMatchObject({ ...items[1], code: 'MISSING_PARAMETER' })
+  expect(lines[2].error).toMatch(/invalid batch item/)
+})
+
+test('rejects a batch that is too large', async () => {
+  const body = Array.from({ length: 3 }, () => '{}').join('\n')
+  const res = await _handler(batchRequest(body), { ...env, MAX_BATCH_SIZE: '2' })
+  expect(res.statusCode).toBe(413)
+  expect(JSON.parse(res.body).code).toBe('BATCH_TOO_LARGE')
+})
+
+test('rejects an unknown destination', async () => {
+  const url = new URL('http://localhost/')
+  for (const [k, v] of Object.entries({ region: 'us-west-2', bucket: 'dotstorage-prod-0', key: 'complete/a.car', shard: 'bagbaieraaosiqlj4gia2lx35dl7ofqynk7xs47aijrnyrfwny6nea4i6srua', dest: 'backup' })) {
+    url.searchParams.set(k, v)
+  }
+  const res = await _handler(new Request(signRequest(url, 'copy', key)), { ...env, DESTINATIONS: 'replica' })
+  expect(res.statusCode).toBe(400)
+  expect(JSON.parse(res.body)).toMatchObject({ code: 'INVALID_PARAMETER', error: 'Unknown destination "backup"' })
+})
+
+test('rejects an unknown index format', async () => {
+  const url = new URL('http://localhost/')
+  for (const [k, v] of Object.entries({ region: 'us-west-2', bucket: 'dotstorage-prod-0', key: 'complete/a.car', shard: 'bagbaieraaosiqlj4gia2lx35dl7ofqynk7xs47aijrnyrfwny6nea4i6srua', index: 'car-index' })) {
+    url.searchParams.set(k, v)
+  }
+  const res = await _handler(new Request(signRequest(url, 'copy', key)), env)
+  expect(res.statusCode).toBe(400)
+  expect(JSON.parse(res.body)).toMatchObject({ code: 'INVALID_PARAMETER', error: 'Unknown index format "car-index"' })
+})
@@ -0,0 +1,108 @@
+import { expect, test } from 'vitest'
+import { SQSEvent } from 'aws-lambda'
+import { signRequest } from '../src/lib/auth'
+import { createJob } from '../src/lib/jobs'
+import { _deadLetterHandler, _handler, _jobHandler } from '../src/copy'
+import { createMemoryJobQueue, createMemoryJobStore } from './helpers/jobs'
+
+const key = 'test-signing-key'
+const env = {
+  REQUEST_SIGNING_KEY: key,
+  // nothing listens here, so copies fail with a server error
+  DEST_ENDPOINT: 'http://127.0.0.1:1',
+  DEST_REGION: 'auto',
+  DEST_ACCESS_KEY_ID: 'test',
+  DEST_SECRET_ACCESS_KEY: 'test',
+  CARPARK_BUCKET: 'carpark',
+  SATNAV_BUCKET: 'satnav',
+  DUDEWHERE_BUCKET: 'dudewhere',
+  JOB_MAX_ATTEMPTS: '2'
+}
+
+const shard = 'bagbaieraaosiqlj4gia2lx35dl7ofqynk7xs47aijrnyrfwny6nea4i6srua'
+const copyParams = { region: 'us-west-2', bucket: 'dotstorage-prod-0', key: `complete/${shard}.car`, shard }
+
+const signedRequest = (params: Record<string, string>, method = 'GET') => {
+  const url = new URL('http://localhost/')
+  for (const [k, v] of Object.entries(params)) url.searchParams.set(k, v)
+  const body = method === 'POST' ? '' : undefined
+  signRequest(url, 'copy', key, { body })
+  return new Request(url, { method })
+}
+
+const createContext = () => ({ jobs: createMemoryJobStore(), queue: createMemoryJobQueue() })
+
+const sqsEvent = (body: string, attempt: number) => ({
+  Records: [{ messageId: '1', body, attributes: { ApproximateReceiveCount: String(attempt) } }]
+}) as unknown as SQSEvent
+
+test('submits a copy job and reports its status', async () => {
+  const context = createContext()
+  const res = await _handler(signedRequest({ ...copyParams, async: 'true' }, 'POST'), env, context)
+  expect(res.statusCode).toBe(202)
+
+  const job = JSON.parse(res.body)
+  expect(job).toMatchObject({ ok: true, status: 'queued', bytes: 0 })
+  expect(new URLSearchParams(job.request).get('shard')).toBe(shard)
+  expect(new URLSearchParams(job.request).has('signature')).toBe(false)
+  expect(context.queue.messages).toEqual([JSON.stringify({ id: job.id })])
+
+  const statusRes = await _handler(signedRequest({ job: job.id }), env, context)
+  expect(statusRes.statusCode).toBe(200)
+  expect(JSON.parse(statusRes.body)).toMatchObject({ ok: true, id: job.id, status: 'queued' })
+})
+
+test('does not submit an invalid copy job', async () => {
+  const context = createContext()
+  const res = await _handler(signedRequest({ ...copyParams, region: 'eu-west-1', async: 'true' }, 'POST'), env, context)
+  expect(res.statusCode).toBe(400)
+  expect(context.jobs.jobs.size).toBe(0)
+  expect(context.queue.messages).toHaveLength(0)
+})
+
+test('responds 404 for an unknown job', async () => {
+  const res = await _handler(signedRequest({ job: 'nope' }), env, createContext())
+  expect(res.statusCode).toBe(404)
+})
+
+test('fails a job with an invalid request without retrying', async () => {
+  const context = createContext()
+  const job = createJob('test-job', new URLSearchParams({ ...copyParams, region: 'eu-west-1' }).toString())
+  await context.jobs.put(job)
+
+  await _jobHandler(sqsEvent(JSON.stringify({ id: job.id }), 1), env, context)
+  expect(await context.jobs.get(job.id)).toMatchObject({ status: 'failed', error: 'Invalid region', result: { code: 'INVALID_REGION' } })
+})
+
+test('retries a job that fails with a server error until the last attempt', async () => {
+  const context = createContext()
+  const job = createJob('test-job', new URLSearchParams(copyParams).toString())
+  await context.jobs.put(job)
+  const message = JSON.stringify({ id: job.id })
+
+  await expect(_jobHandler(sqsEvent(message, 1), env, context)).rejects.toThrow(/will retry/)
+  const retrying = await context.jobs.get(job.id)
+  expect(retrying?.status).toBe('queued')
+  expect(retrying?.error).toBeTruthy()
+
+  await expect(_jobHandler(sqsEvent(message, 2), env, context)).rejects.toThrow(/failed/)
+  expect((await context.jobs.get(job.id))?.status).toBe('failed')
+
+  // a redelivered message does not run a finished job again
+  await _jobHandler(sqsEvent(message, 3), env, context)
+  expect((await context.jobs.get(job.id))?.status).toBe('failed')
+}, 30_000)
+
+test('fails a job left running by a timed out last attempt', async () => {
+  const context = createContext()
+  const running = createJob('running-job', new URLSearchParams(copyParams).toString())
+  const done = createJob('done-job', new URLSearchParams(copyParams).toString())
+  await context.jobs.put({ ...running, status: 'running' })
+  await context.jobs.put({ ...done, status: 'done', result: { car: 'test' } })
+
+  await _deadLetterHandler(sqsEvent(JSON.stringify({ id: running.id }), 3), env, context)
+  expect(await context.jobs.get(running.id)).toMatchObject({ status: 'failed', error: 'job did not complete in 3 attempts' })
+
+  await _deadLetterHandler(sqsEvent(JSON.stringify({ id: done.id }), 3), env, context)
+  expect(await context.jobs.get(done.id)).toMatchObject({ status: 'done', result: { car: 'test' } })
+})
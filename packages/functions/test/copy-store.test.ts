@@ -0,0 +1,513 @@
+import { expect, test, beforeEach, afterEach, vi } from 'vitest'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import * as Link from 'multiformats/link'
+import { create as createLink } from 'multiformats/link'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { generateTestCAR } from './helpers/car'
+import { copy, copyBlob, partConcurrency, replicate, replicateBlob } from '../src/copy'
+import { verify } from '../src/verify'
+import { hashObject } from '../src/hash'
+import { createFSStore, Store } from '../src/lib/store'
+import { checkpointKey } from '../src/lib/keys'
+
+let root: string
+let src: Store
+let carpark: Store
+let satnav: Store
+let dudewhere: Store
+
+beforeEach(async () => {
+  root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'copy-'))
+  src = createFSStore(path.join(root, 'src'))
+  carpark = createFSStore(path.join(root, 'carpark'))
+  satnav = createFSStore(path.join(root, 'satnav'))
+  dudewhere = createFSStore(path.join(root, 'dudewhere'))
+})
+
+afterEach(async () => {
+  await fs.promises.rm(root, { recursive: true, force: true })
+})
+
+const putTestCAR = async (size: number) => {
+  const car = await generateTestCAR(size)
+  const key = `complete/${car.root}.car`
+  await fs.promises.mkdir(path.join(root, 'src', 'complete'), { recursive: true })
+  await fs.promises.rename(car.path, path.join(root, 'src', key))
+  return { ...car, key }
+}
+
+/** Files in a filesystem store, excluding metadata. */
+const listObjects = async (dir: string) => {
+  const entries = await fs.promises.readdir(dir, { recursive: true, withFileTypes: true }).catch(() => [])
+  return entries.filter(e => e.isFile() && !path.relative(dir, e.path).startsWith('.meta')).map(e => e.name)
+}
+
+test('copy a CAR between filesystem stores', async () => {
+  const car = await putTestCAR(3 * 1024 * 1024)
+  const carparkKey = `${car.cid}/${car.cid}.car`
+  const satnavKey = `${car.cid}/${car.cid}.car.idx`
+
+  const res = await copy({ store: src, key: car.key, cid: car.cid }, { store: carpark, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere)
+  expect(res.statusCode).toBe(200)
+  expect(JSON.parse(res.body)).toEqual({ ok: true, car: 'created', index: 'created', link: 'created', roots: [{ '/': car.root.toString() }] })
+
+  expect(await carpark.head(carparkKey)).toMatchObject({
+    size: car.size,
+    contentType: 'application/vnd.ipld.car',
+    metadata: { source: encodeURI(`${src.name}/${car.key}`) }
+  })
+  expect(await satnav.head(satnavKey)).toMatchObject({ metadata: { shard: car.cid.toString() } })
+  expect(await dudewhere.head(`${car.root}/${car.cid}`)).toEqual({ size: 0 })
+})
+
+test('copy a CAR between filesystem stores with multipart', async () => {
+  const car = await putTestCAR(3 * 1024 * 1024)
+  const carparkKey = `${car.cid}/${car.cid}.car`
+
+  const satnavKey = `${car.cid}/${car.cid}.car.idx`
+
+  // the index is also written with a multipart upload
+  const res = await copy({ store: src, key: car.key, cid: car.cid }, { store: carpark, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere, { maxPutSize: 1024 })
+  expect(res.statusCode).toBe(200)
+  expect((await carpark.head(carparkKey))?.size).toBe(car.size)
+  expect(await carpark.head(checkpointKey(carparkKey))).toBeUndefined()
+  expect(await satnav.multipart!.listUploads(satnavKey)).toEqual([])
+
+  const result = await verify(car.cid, { store: carpark, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere)
+  expect(result.index).toMatchObject({ ok: true, entries: result.car.blocks })
+})
+
+test('reports stage timing and writes metrics', async () => {
+  const car = await putTestCAR(1024 * 1024)
+  const carparkKey = `${car.cid}/${car.cid}.car`
+  const satnavKey = `${car.cid}/${car.cid}.car.idx`
+
+  const stdout = vi.spyOn(console, 'log').mockImplementation(() => {})
+  try {
+    const res = await copy({ store: src, key: car.key, cid: car.cid }, { store: carpark, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere, { timing: true })
+    expect(res.statusCode).toBe(200)
+    const { timing } = JSON.parse(res.body)
+    expect(Object.keys(timing).sort()).toEqual(['car', 'index', 'link'])
+
+    const lines = stdout.mock.calls.map(([line]) => JSON.parse(line))
+    expect(lines.filter(l => !l._aws).every(l => l.shard === car.cid.toString())).toBe(true)
+    const metrics = lines.filter(l => l._aws)
+    expect(metrics.find(m => 'BytesCopied' in m)).toMatchObject({ BytesCopied: car.size, shard: car.cid.toString() })
+    expect(metrics.filter(m => 'StageDuration' in m).map(m => m.Stage).sort()).toEqual(['car', 'index', 'link'])
+  } finally {
+    stdout.mockRestore()
+  }
+})
+
+test('reshards a CAR larger than the max shard size', async () => {
+  const car = await putTestCAR(1024 * 1024 * 6)
+  const carparkKey = `${car.cid}/${car.cid}.car`
+  const satnavKey = `${car.cid}/${car.cid}.car.idx`
+
+  const res = await copy({ store: src, key: car.key, cid: car.cid }, { store: carpark, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere, { maxShardSize: 1024 * 1024 * 3 })
+  expect(res.statusCode).toBe(200)
+  const { shards, roots } = JSON.parse(res.body)
+  expect(shards.length).toBeGreaterThan(1)
+  expect(roots).toEqual([{ '/': car.root.toString() }])
+  expect(await carpark.head(carparkKey)).toBeUndefined()
+
+  for (const { '/': shardstr } of shards) {
+    const shard = Link.parse(shardstr)
+    const result = await verify(shard, { store: carpark, key: `${shard}/${shard}.car` }, { store: satnav, key: `${shard}/${shard}.car.idx` }, dudewhere, { roots: [car.root] })
+    expect(result.valid).toBe(true)
+    expect(result.car.size).toBeLessThanOrEqual(1024 * 1024 * 3)
+  }
+
+  // a retry skips the shards that were already copied
+  const retry = await copy({ store: src, key: car.key, cid: car.cid }, { store: carpark, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere, { maxShardSize: 1024 * 1024 * 3 })
+  expect(JSON.parse(retry.body).shards).toEqual(shards)
+})
+
+test('removes resharded CARs when the source fails its integrity check', async () => {
+  const car = await putTestCAR(1024 * 1024 * 6)
+  const cid = createLink<Uint8Array, 0x0202, typeof sha256.code>(0x0202, await sha256.digest(new Uint8Array([1, 2, 3])))
+
+  const res = await copy({ store: src, key: car.key, cid }, { store: carpark, key: `${cid}/${cid}.car` }, { store: satnav, key: `${cid}/${cid}.car.idx` }, dudewhere, { maxShardSize: 1024 * 1024 * 3 })
+  expect(res.statusCode).toBe(500)
+  expect(JSON.parse(res.body)).toMatchObject({ ok: false, stage: 'car', error: 'integrity check failed' })
+  for (const name of ['carpark', 'satnav', 'dudewhere']) {
+    expect(await listObjects(path.join(root, name))).toEqual([])
+  }
+})
+
+test('does not link resharded CARs when the source fails its integrity check', async () => {
+  const car = await putTestCAR(1024 * 1024 * 6)
+  const res = await copy({ store: src, key: car.key, cid: car.cid }, { store: carpark, key: `${car.cid}/${car.cid}.car` }, { store: satnav, key: `${car.cid}/${car.cid}.car.idx` }, dudewhere, { maxShardSize: 1024 * 1024 * 3 })
+  expect(res.statusCode).toBe(200)
+  const { shards } = JSON.parse(res.body)
+  for (const { '/': shard } of shards) await dudewhere.delete(`${car.root}/${shard}`)
+
+  // the shards already exist, and their missing links are repaired only once
+  // the source has been checked
+  const cid = createLink<Uint8Array, 0x0202, typeof sha256.code>(0x0202, await sha256.digest(new Uint8Array([1, 2, 3])))
+  const repair = await copy({ store: src, key: car.key, cid }, { store: carpark, key: `${cid}/${cid}.car` }, { store: satnav, key: `${cid}/${cid}.car.idx` }, dudewhere, { maxShardSize: 1024 * 1024 * 3, repair: true })
+  expect(repair.statusCode).toBe(500)
+  expect(JSON.parse(repair.body)).toMatchObject({ ok: false, stage: 'car', error: 'integrity check failed' })
+  expect(await listObjects(path.join(root, 'dudewhere'))).toEqual([])
+  expect(await listObjects(path.join(root, 'carpark'))).toHaveLength(shards.length)
+})
+
+test('copy a blob with single put and multipart', async () => {
+  const bytes = new Uint8Array(1024 * 1024).map((_, i) => i % 251)
+  const cid = createLink<Uint8Array, 0x55, typeof sha256.code>(0x55, await sha256.digest(bytes))
+  await fs.promises.mkdir(path.join(root, 'src', 'raw'), { recursive: true })
+  await fs.promises.writeFile(path.join(root, 'src', 'raw', 'blob'), bytes)
+
+  const res = await copyBlob({ store: src, key: 'raw/blob', cid }, { store: carpark, key: 'a.blob' })
+  expect(res.statusCode).toBe(200)
+  expect(JSON.parse(res.body)).toEqual({ ok: true, blob: 'created' })
+  expect(await carpark.head('a.blob')).toMatchObject({ size: bytes.length, contentType: 'application/octet-stream' })
+
+  const multipart = await copyBlob({ store: src, key: 'raw/blob', cid }, { store: carpark, key: 'b.blob' }, { maxPutSize: 1024 })
+  expect(JSON.parse(multipart.body)).toEqual({ ok: true, blob: 'created' })
+  expect((await carpark.head('b.blob'))?.size).toBe(bytes.length)
+
+  const skipped = await copyBlob({ store: src, key: 'raw/blob', cid }, { store: carpark, key: 'a.blob' })
+  expect(JSON.parse(skipped.body)).toEqual({ ok: true, blob: 'skipped' })
+
+  const other = createLink<Uint8Array, 0x55, typeof sha256.code>(0x55, await sha256.digest(new Uint8Array([1, 2, 3])))
+  const invalid = await copyBlob({ store: src, key: 'raw/blob', cid: other }, { store: carpark, key: 'c.blob' })
+  expect(invalid.statusCode).toBe(500)
+  expect(JSON.parse(invalid.body)).toMatchObject({ ok: false, stage: 'blob' })
+  expect(await carpark.head('c.blob')).toBeUndefined()
+})
+
+test('replicates a CAR to several destinations and retries only where it failed', async () => {
+  const car = await putTestCAR(1024 * 1024)
+  const carparkKey = `${car.cid}/${car.cid}.car`
+  const satnavKey = `${car.cid}/${car.cid}.car.idx`
+  const backup = createFSStore(path.join(root, 'backup'))
+  const target = (name: string, store: Store) => ({ name, dest: { store, key: carparkKey }, indexDest: { store, key: satnavKey }, linkDest: store })
+  const failing = { ...backup, put: async () => { throw new Error('backup unavailable') } }
+
+  const [primary, failed] = await replicate({ store: src, key: car.key, cid: car.cid }, [target('default', carpark), target('backup', failing)])
+  expect(JSON.parse(primary.body)).toMatchObject({ ok: true, car: 'created', index: 'created', link: 'created' })
+  expect(failed.statusCode).toBe(500)
+  expect(JSON.parse(failed.body)).toMatchObject({ ok: false, stage: 'car', error: 'backup unavailable' })
+  expect(await listObjects(path.join(root, 'backup'))).toEqual([])
+
+  const [skipped, retried] = await replicate({ store: src, key: car.key, cid: car.cid }, [target('default', carpark), target('backup', backup)])
+  expect(JSON.parse(skipped.body)).toEqual({ ok: true, car: 'skipped' })
+  expect(JSON.parse(retried.body)).toMatchObject({ ok: true, car: 'created', index: 'created', link: 'created' })
+  const result = await verify(car.cid, { store: backup, key: carparkKey }, { store: backup, key: satnavKey }, backup, { roots: [car.root] })
+  expect(result.valid).toBe(true)
+})
+
+test('replicates a multipart CAR to several destinations from one read of each part', async () => {
+  const car = await putTestCAR(1024 * 1024 * 2)
+  const carparkKey = `${car.cid}/${car.cid}.car`
+  const satnavKey = `${car.cid}/${car.cid}.car.idx`
+  const backup = createFSStore(path.join(root, 'backup'))
+  const target = (name: string, store: Store) => ({ name, dest: { store, key: carparkKey }, indexDest: { store, key: satnavKey }, linkDest: store })
+  const partSize = Math.ceil(car.size / 6)
+  const concurrency = 2
+
+  const ranges: number[] = []
+  let hashed = 0
+  let maxParts = 0
+  let objectBytes = 0
+  const source = {
+    ...src,
+    get: async (...args: Parameters<Store['get']>) => {
+      if (args[1]?.range) {
+        ranges.push(args[1].range.start)
+        maxParts = Math.max(maxParts, ranges.length - hashed)
+        return await src.get(...args)
+      }
+      const res = await src.get(...args)
+      return res && { ...res, body: res.body.pipeThrough(new TransformStream({ transform (chunk, controller) { objectBytes += chunk.length; controller.enqueue(chunk) } })) }
+    }
+  }
+  const onProgress = (bytes: number) => { hashed = Math.ceil(bytes / partSize) }
+
+  const responses = await replicate({ store: source, key: car.key, cid: car.cid }, [target('default', carpark), target('backup', backup)], { maxPutSize: 1024, partSize, concurrency, onProgress })
+  for (const res of responses) {
+    expect(JSON.parse(res.body)).toMatchObject({ ok: true, car: 'created', index: 'created', link: 'created' })
+  }
+  // each part is read once for both uploads, and the parts in memory are not
+  // multiplied by the destinations
+  expect(ranges).toEqual([0, 1, 2, 3, 4, 5].map(i => i * partSize))
+  expect(maxParts).toBe(concurrency)
+  // the index is built from the parts, not from another read of the object
+  expect(objectBytes).toBe(0)
+
+  for (const store of [carpark, backup]) {
+    expect(await store.head(checkpointKey(carparkKey))).toBeUndefined()
+    const result = await verify(car.cid, { store, key: carparkKey }, { store, key: satnavKey }, store, { roots: [car.root] })
+    expect(result.valid).toBe(true)
+  }
+})
+
+test('replicates a multipart blob and resumes only where a part failed', async () => {
+  const bytes = new Uint8Array(1024 * 1024).map((_, i) => i % 251)
+  const cid = createLink<Uint8Array, 0x55, typeof sha256.code>(0x55, await sha256.digest(bytes))
+  await fs.promises.mkdir(path.join(root, 'src', 'raw'), { recursive: true })
+  await fs.promises.writeFile(path.join(root, 'src', 'raw', 'blob'), bytes)
+  const backup = createFSStore(path.join(root, 'backup'))
+  const partSize = bytes.length / 4
+  const options = { maxPutSize: 1024, partSize, concurrency: 1 }
+
+  const ranges: number[] = []
+  const source = {
+    ...src,
+    get: async (...args: Parameters<Store['get']>) => {
+      if (args[1]?.range) ranges.push(args[1].range.start)
+      return await src.get(...args)
+    }
+  }
+  const failing = {
+    ...backup,
+    multipart: {
+      ...backup.multipart!,
+      uploadPart: async (...args: Parameters<NonNullable<Store['multipart']>['uploadPart']>) => {
+        if (args[2] === 2) throw new Error('part failed')
+        return await backup.multipart!.uploadPart(...args)
+      }
+    }
+  }
+
+  const [primary, failed] = await replicateBlob({ store: source, key: 'raw/blob', cid }, [{ name: 'default', dest: { store: carpark, key: 'a.blob' } }, { name: 'backup', dest: { store: failing, key: 'a.blob' } }], options)
+  expect(JSON.parse(primary.body)).toEqual({ ok: true, blob: 'created' })
+  expect(JSON.parse(failed.body)).toMatchObject({ ok: false, stage: 'blob', error: 'part failed' })
+  expect(ranges).toEqual([0, 1, 2, 3].map(i => i * partSize))
+  expect(await carpark.head('a.blob')).toMatchObject({ size: bytes.length })
+  const checkpoint = JSON.parse(await new Response((await backup.get(checkpointKey('a.blob')))!.body).text())
+  expect(checkpoint.hashed.parts).toBe(1)
+
+  ranges.length = 0
+  const [skipped, resumed] = await replicateBlob({ store: source, key: 'raw/blob', cid }, [{ name: 'default', dest: { store: carpark, key: 'a.blob' } }, { name: 'backup', dest: { store: backup, key: 'a.blob' } }], options)
+  expect(JSON.parse(skipped.body)).toEqual({ ok: true, blob: 'skipped' })
+  expect(JSON.parse(resumed.body)).toEqual({ ok: true, blob: 'created' })
+  expect(ranges).toEqual([1, 2, 3].map(i => i * partSize))
+  expect(new Uint8Array(await new Response((await backup.get('a.blob'))!.body).arrayBuffer())).toEqual(bytes)
+})
+
+test('does not write index or link when the CAR fails its integrity check', async () => {
+  const car = await putTestCAR(1024 * 1024)
+  const cid = createLink<Uint8Array, 0x0202, typeof sha256.code>(0x0202, await sha256.digest(new Uint8Array([1, 2, 3])))
+  const carparkKey = `${cid}/${cid}.car`
+  const satnavKey = `${cid}/${cid}.car.idx`
+
+  const res = await copy({ store: src, key: car.key, cid }, { store: carpark, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere)
+  expect(res.statusCode).toBe(500)
+  expect(JSON.parse(res.body)).toMatchObject({ ok: false, stage: 'car' })
+
+  expect(await carpark.head(carparkKey)).toBeUndefined()
+  expect(await satnav.head(satnavKey)).toBeUndefined()
+  expect(await dudewhere.head(`${car.root}/${cid}`)).toBeUndefined()
+})
+
+test('rolls back only the objects a failed repair created', async () => {
+  const car = await putTestCAR(1024 * 1024)
+  const carparkKey = `${car.cid}/${car.cid}.car`
+  const satnavKey = `${car.cid}/${car.cid}.car.idx`
+  const linkKey = `${car.root}/${car.cid}`
+  const res = await copy({ store: src, key: car.key, cid: car.cid }, { store: carpark, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere)
+  expect(res.statusCode).toBe(200)
+
+  // an invalid CAR is repaired with a new index, but the missing link fails
+  await carpark.put(carparkKey, new Uint8Array([1, 2, 3]))
+  await dudewhere.delete(linkKey)
+  const failing = { ...dudewhere, put: async () => { throw new Error('dudewhere unavailable') } }
+  const repair = await copy({ store: src, key: car.key, cid: car.cid }, { store: carpark, key: carparkKey }, { store: satnav, key: satnavKey }, failing, { repair: true })
+  expect(repair.statusCode).toBe(500)
+  expect(JSON.parse(repair.body)).toMatchObject({ ok: false, stage: 'link' })
+
+  // the overwritten CAR and index are kept
+  expect((await carpark.head(carparkKey))?.size).toBe(car.size)
+  expect(await satnav.head(satnavKey)).toBeDefined()
+  const result = await verify(car.cid, { store: carpark, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere, { roots: [] })
+  expect(result.valid).toBe(true)
+})
+
+test('fails to repair from a source that ends before the CAR header', async () => {
+  const car = await putTestCAR(1024 * 1024)
+  const carparkKey = `${car.cid}/${car.cid}.car`
+  const satnavKey = `${car.cid}/${car.cid}.car.idx`
+  const res = await copy({ store: src, key: car.key, cid: car.cid }, { store: carpark, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere)
+  expect(res.statusCode).toBe(200)
+
+  await src.put('corrupt.car', new Uint8Array([1, 2, 3, 4, 5]))
+  const repair = await copy({ store: src, key: 'corrupt.car', cid: car.cid }, { store: carpark, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere, { repair: true })
+  expect(repair.statusCode).toBe(500)
+  expect(JSON.parse(repair.body).error).toMatch(/repair/)
+})
+
+test('stores a piece CID only if it matches the source', async () => {
+  // 65 zero bytes pad to a 128 byte piece, whose v1 piece CID (CommP) is
+  // baga6ea4seaqdomn3tgwgrh3g532zopskstnbrd2n3sxfqbze7rxt7vqn7veigmy
+  const piece = Link.parse('bafkzcibchybdomn3tgwgrh3g532zopskstnbrd2n3sxfqbze7rxt7vqn7veigmy')
+  const bytes = new Uint8Array(65)
+  const cid = createLink<Uint8Array, 0x55, typeof sha256.code>(0x55, await sha256.digest(bytes))
+  await fs.promises.mkdir(path.join(root, 'src', 'raw'), { recursive: true })
+  await fs.promises.writeFile(path.join(root, 'src', 'raw', 'blob'), bytes)
+
+  for (const [key, maxPutSize] of [['a.blob', undefined], ['b.blob', 32]] as const) {
+    const res = await copyBlob({ store: src, key: 'raw/blob', cid }, { store: carpark, key }, { piece, maxPutSize })
+    expect(JSON.parse(res.body)).toEqual({ ok: true, blob: 'created' })
+    expect((await carpark.head(key))?.metadata).toMatchObject({ piece: piece.toString() })
+  }
+
+  const car = await putTestCAR(1024 * 1024)
+  const { piece: carPiece } = await hashObject((await src.get(car.key))!.body, { piece: true })
+  for (const [options, name] of [[{}, 'put'], [{ maxPutSize: 1024 }, 'multipart']] as const) {
+    const carparkKey = `${name}/${car.cid}.car`
+    const satnavKey = `${name}/${car.cid}.car.idx`
+    const res = await copy({ store: src, key: car.key, cid: car.cid }, { store: carpark, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere, { ...options, piece: carPiece })
+    expect(JSON.parse(res.body)).toMatchObject({ ok: true, car: 'created' })
+    expect((await carpark.head(carparkKey))?.metadata).toMatchObject({ piece: carPiece?.toString() })
+
+    const mismatch = await copy({ store: src, key: car.key, cid: car.cid }, { store: carpark, key: `${carparkKey}.bad` }, { store: satnav, key: `${satnavKey}.bad` }, dudewhere, { ...options, piece })
+    expect(mismatch.statusCode).toBe(500)
+    expect(JSON.parse(mismatch.body).error).toMatch(/piece CID mismatch/)
+    expect(await carpark.head(`${carparkKey}.bad`)).toBeUndefined()
+    expect(await satnav.head(`${satnavKey}.bad`)).toBeUndefined()
+  }
+})
+
+test('resumes an interrupted multipart upload from its checkpoint', async () => {
+  const car = await putTestCAR(1024 * 1024 * 2)
+  const carparkKey = `${car.cid}/${car.cid}.car`
+  const satnavKey = `${car.cid}/${car.cid}.car.idx`
+  const partSize = Math.ceil(car.size / 6)
+  const options = { maxPutSize: 1024, partSize, concurrency: 1 }
+
+  const uploadedParts: number[] = []
+  const interrupted = {
+    ...carpark,
+    multipart: {
+      ...carpark.multipart!,
+      uploadPart: async (...args: Parameters<NonNullable<Store['multipart']>['uploadPart']>) => {
+        if (args[2] === 3) throw new Error('lambda timed out')
+        return await carpark.multipart!.uploadPart(...args)
+      }
+    }
+  }
+  const res = await copy({ store: src, key: car.key, cid: car.cid }, { store: interrupted, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere, options)
+  expect(res.statusCode).toBe(500)
+  expect(await carpark.head(carparkKey)).toBeUndefined()
+
+  const checkpoint = JSON.parse(await new Response((await carpark.get(checkpointKey(carparkKey)))!.body).text())
+  // the parts before the one that failed were hashed
+  expect(checkpoint).toEqual({ uploadID: expect.any(String), partSize, hashed: { parts: 2, state: expect.any(String) } })
+  expect(await carpark.multipart!.listUploads(carparkKey)).toEqual([checkpoint.uploadID])
+  expect((await carpark.multipart!.listParts(carparkKey, checkpoint.uploadID)).map(p => p.partNumber)).toEqual([1, 2])
+
+  const resuming = {
+    ...carpark,
+    multipart: {
+      ...carpark.multipart!,
+      create: async () => { throw new Error('upload was not resumed') },
+      uploadPart: async (...args: Parameters<NonNullable<Store['multipart']>['uploadPart']>) => {
+        uploadedParts.push(args[2])
+        return await carpark.multipart!.uploadPart(...args)
+      }
+    }
+  }
+  const ranges: number[] = []
+  const source = {
+    ...src,
+    get: async (...args: Parameters<Store['get']>) => {
+      if (args[1]?.range) ranges.push(args[1].range.start)
+      return await src.get(...args)
+    }
+  }
+  const resumed = await copy({ store: source, key: car.key, cid: car.cid }, { store: resuming, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere, options)
+  expect(JSON.parse(resumed.body)).toMatchObject({ ok: true, car: 'created' })
+  expect(uploadedParts).toEqual([3, 4, 5, 6])
+  // the hash is resumed, so the parts that were hashed are not read again
+  expect(ranges).toEqual([2, 3, 4, 5].map(i => i * partSize))
+  expect(await carpark.head(checkpointKey(carparkKey))).toBeUndefined()
+  expect(await carpark.multipart!.listUploads(carparkKey)).toEqual([])
+
+  const result = await verify(car.cid, { store: carpark, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere)
+  expect(result.valid).toBe(true)
+})
+
+test('hashes parts in order when they complete out of order', async () => {
+  const car = await putTestCAR(1024 * 1024 * 2)
+  const carparkKey = `${car.cid}/${car.cid}.car`
+  const satnavKey = `${car.cid}/${car.cid}.car.idx`
+  const partSize = Math.ceil(car.size / 4)
+
+  const completed: number[] = []
+  let inflight = 0
+  let maxInflight = 0
+  const slow = {
+    ...carpark,
+    multipart: {
+      ...carpark.multipart!,
+      uploadPart: async (...args: Parameters<NonNullable<Store['multipart']>['uploadPart']>) => {
+        inflight++
+        maxInflight = Math.max(maxInflight, inflight)
+        // earlier parts take longer
+        await new Promise(resolve => setTimeout(resolve, (5 - args[2]) * 50))
+        const part = await carpark.multipart!.uploadPart(...args)
+        completed.push(args[2])
+        inflight--
+        return part
+      }
+    }
+  }
+  const res = await copy({ store: src, key: car.key, cid: car.cid }, { store: slow, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere, { maxPutSize: 1024, partSize, concurrency: 3 })
+  expect(JSON.parse(res.body)).toMatchObject({ ok: true, car: 'created' })
+  expect(completed).toEqual([3, 2, 1, 4])
+  expect(maxInflight).toBe(3)
+
+  const result = await verify(car.cid, { store: carpark, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere)
+  expect(result.valid).toBe(true)
+})
+
+test('stops transferring parts when a part fails', async () => {
+  const car = await putTestCAR(1024 * 1024 * 2)
+  const carparkKey = `${car.cid}/${car.cid}.car`
+  const satnavKey = `${car.cid}/${car.cid}.car.idx`
+  const partSize = Math.ceil(car.size / 6)
+
+  const started: number[] = []
+  const completed: number[] = []
+  const failing = {
+    ...carpark,
+    multipart: {
+      ...carpark.multipart!,
+      uploadPart: async (...args: Parameters<NonNullable<Store['multipart']>['uploadPart']>) => {
+        started.push(args[2])
+        if (args[2] === 3) throw new Error('part failed')
+        // parts in flight finish after the failure
+        await new Promise(resolve => setTimeout(resolve, 100))
+        const part = await carpark.multipart!.uploadPart(...args)
+        completed.push(args[2])
+        return part
+      }
+    }
+  }
+  const res = await copy({ store: src, key: car.key, cid: car.cid }, { store: failing, key: carparkKey }, { store: satnav, key: satnavKey }, dudewhere, { maxPutSize: 1024, partSize, concurrency: 3 })
+  expect(res.statusCode).toBe(500)
+  expect(JSON.parse(res.body).error).toMatch(/part failed/)
+  // no part is enqueued after the failure, and those in flight have finished
+  expect(started).toEqual([1, 2, 3])
+  expect(completed).toEqual([1, 2])
+  expect(await carpark.head(carparkKey)).toBeUndefined()
+  expect(await satnav.head(satnavKey)).toBeUndefined()
+
+  // the upload is kept to be resumed from its checkpoint, after the parts in flight
+  const checkpoint = JSON.parse(await new Response((await carpark.get(checkpointKey(carparkKey)))!.body).text())
+  expect(checkpoint.hashed.parts).toBe(2)
+  expect((await carpark.multipart!.listParts(carparkKey, checkpoint.uploadID)).map(p => p.partNumber)).toEqual([1, 2])
+})
+
+test('limits the parts in memory', () => {
+  const mib = 1024 * 1024
+  expect(partConcurrency(100 * mib, 4)).toBe(4)
+  expect(partConcurrency(200 * mib, 4)).toBe(2)
+  expect(partConcurrency(300 * mib, 4)).toBe(1)
+  // a part larger than the limit is still transferred
+  expect(partConcurrency(1024 * mib, 4)).toBe(1)
+})
@@ -1,10 +1,14 @@
 import { expect, test, beforeAll, beforeEach, afterAll, afterEach, Nullable } from 'vitest'
 import fs from 'node:fs'
-import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3'
+import { CreateMultipartUploadCommand, DeleteObjectCommand, ListMultipartUploadsCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3'
 import { UnknownLink, Link } from 'multiformats'
+import { create as createLink } from 'multiformats/link'
+import { sha256 } from 'multiformats/hashes/sha2'
 import { TestAWSService, createS3, createS3Bucket, keyExists } from './helpers/aws'
 import { generateTestCAR } from './helpers/car'
 import { copy } from '../src/copy'
+import { createS3Store } from '../src/lib/store'
+import { checkpointKey } from '../src/lib/keys'
 
 let s3: TestAWSService<S3Client>
 let srcBucket: string
@@ -33,6 +37,16 @@ afterAll(async () => {
   await s3.container.stop()
 })
 
+const s3Store = (bucket: string) => createS3Store({
+  region: s3.region,
+  endpoint: s3.endpoint,
+  credentials: s3.credentials,
+  forcePathStyle: true,
+  bucket
+})
+
+const s3Object = (bucket: string, key: string) => ({ store: s3Store(bucket), key })
+
 test('copy a small CAR', async () => {
   srcCAR = await generateTestCAR(5 * 1024 * 1024)
   const srcKey = `complete/${srcCAR.root}.car`
@@ -48,25 +62,9 @@ test('copy a small CAR', async () => {
   const satnavKey = `${srcCAR.cid}/${srcCAR.cid}.car.idx`
   const dudewhereKey = `${srcCAR.root}/${srcCAR.cid}`
 
-  const res = await copy({
-    ...s3,
-    cid: srcCAR.cid,
-    bucket: srcBucket,
-    key: srcKey
-  }, {
-    ...s3,
-    bucket: carparkBucket,
-    key: carparkKey
-  }, {
-    ...s3,
-    bucket: satnavBucket,
-    key: satnavKey
-  }, {
-    ...s3,
-    bucket: dudewhereBucket,
-    key: dudewhereKey
-  })
+  const res = await copy({ ...s3Object(srcBucket, srcKey), cid: srcCAR.cid }, s3Object(carparkBucket, carparkKey), s3Object(satnavBucket, satnavKey), s3Store(dudewhereBucket))
   expect(res.statusCode).toBe(200)
+  expect(JSON.parse(res.body).roots).toEqual([{ '/': srcCAR.root.toString() }])
 
   await expect(keyExists(s3.client, carparkBucket, carparkKey)).resolves.toBe(true)
   await expect(keyExists(s3.client, satnavBucket, satnavKey)).resolves.toBe(true)
@@ -89,24 +87,7 @@ test('copy a large CAR with multipart', async () => {
   const dudewhereKey = `${srcCAR.root}/${srcCAR.cid}`
 
   console.time('copy')
-  const res = await copy({
-    ...s3,
-    cid: srcCAR.cid,
-    bucket: srcBucket,
-    key: srcKey
-  }, {
-    ...s3,
-    bucket: carparkBucket,
-    key: carparkKey
-  }, {
-    ...s3,
-    bucket: satnavBucket,
-    key: satnavKey
-  }, {
-    ...s3,
-    bucket: dudewhereBucket,
-    key: dudewhereKey
-  }, { maxPutSize: 1024 * 1024 * 50 })
+  const res = await copy({ ...s3Object(srcBucket, srcKey), cid: srcCAR.cid }, s3Object(carparkBucket, carparkKey), s3Object(satnavBucket, satnavKey), s3Store(dudewhereBucket), { maxPutSize: 1024 * 1024 * 50 })
   expect(res.statusCode).toBe(200)
   console.timeEnd('copy')
 
@@ -114,3 +95,97 @@ test('copy a large CAR with multipart', async () => {
   await expect(keyExists(s3.client, satnavBucket, satnavKey)).resolves.toBe(true)
   await expect(keyExists(s3.client, dudewhereBucket, dudewhereKey)).resolves.toBe(true)
 }, { timeout: 60_000 })
+
+test('aborts stale multipart uploads in cleanup mode', async () => {
+  srcCAR = await generateTestCAR(5 * 1024 * 1024)
+  const srcKey = `complete/${srcCAR.root}.car`
+
+  await s3.client.send(new PutObjectCommand({
+    Bucket: srcBucket,
+    Key: srcKey,
+    ContentLength: srcCAR.size,
+    Body: fs.createReadStream(srcCAR.path)
+  }))
+
+  const carparkKey = `${srcCAR.cid}/${srcCAR.cid}.car`
+  const satnavKey = `${srcCAR.cid}/${srcCAR.cid}.car.idx`
+  const dudewhereKey = `${srcCAR.root}/${srcCAR.cid}`
+
+  // an upload left behind by a failed attempt, with no checkpoint to resume from
+  await s3.client.send(new CreateMultipartUploadCommand({ Bucket: carparkBucket, Key: carparkKey }))
+
+  const res = await copy({ ...s3Object(srcBucket, srcKey), cid: srcCAR.cid }, s3Object(carparkBucket, carparkKey), s3Object(satnavBucket, satnavKey), s3Store(dudewhereBucket), { maxPutSize: 1024 * 1024, cleanup: true })
+  expect(res.statusCode).toBe(200)
+
+  await expect(keyExists(s3.client, carparkBucket, carparkKey)).resolves.toBe(true)
+  await expect(keyExists(s3.client, carparkBucket, checkpointKey(carparkKey))).resolves.toBe(false)
+
+  const uploads = await s3.client.send(new ListMultipartUploadsCommand({ Bucket: carparkBucket, Prefix: carparkKey }))
+  expect(uploads.Uploads ?? []).toHaveLength(0)
+})
+
+test('does not write index or link when the CAR fails its integrity check', async () => {
+  srcCAR = await generateTestCAR(5 * 1024 * 1024)
+  const srcKey = `complete/${srcCAR.root}.car`
+
+  await s3.client.send(new PutObjectCommand({
+    Bucket: srcBucket,
+    Key: srcKey,
+    ContentLength: srcCAR.size,
+    Body: fs.createReadStream(srcCAR.path)
+  }))
+
+  // a shard CID that does not match the source bytes
+  const cid = createLink<Uint8Array, 0x0202, typeof sha256.code>(0x0202, await sha256.digest(new Uint8Array([1, 2, 3])))
+  const carparkKey = `${cid}/${cid}.car`
+  const satnavKey = `${cid}/${cid}.car.idx`
+  const dudewhereKey = `${srcCAR.root}/${cid}`
+
+  const res = await copy({ ...s3Object(srcBucket, srcKey), cid }, s3Object(carparkBucket, carparkKey), s3Object(satnavBucket, satnavKey), s3Store(dudewhereBucket), { maxPutSize: 1024 * 1024 })
+  expect(res.statusCode).toBe(500)
+  expect(JSON.parse(res.body)).toMatchObject({ ok: false, stage: 'car' })
+
+  await expect(keyExists(s3.client, carparkBucket, carparkKey)).resolves.toBe(false)
+  await expect(keyExists(s3.client, satnavBucket, satnavKey)).resolves.toBe(false)
+  await expect(keyExists(s3.client, dudewhereBucket, dudewhereKey)).resolves.toBe(false)
+})
+
+test('repairs a missing index and link', async () => {
+  srcCAR = await generateTestCAR(5 * 1024 * 1024)
+  const srcKey = `complete/${srcCAR.root}.car`
+
+  await s3.client.send(new PutObjectCommand({
+    Bucket: srcBucket,
+    Key: srcKey,
+    ContentLength: srcCAR.size,
+    Body: fs.createReadStream(srcCAR.path)
+  }))
+
+  const carparkKey = `${srcCAR.cid}/${srcCAR.cid}.car`
+  const satnavKey = `${srcCAR.cid}/${srcCAR.cid}.car.idx`
+  const dudewhereKey = `${srcCAR.root}/${srcCAR.cid}`
+
+  const args = [{ ...s3Object(srcBucket, srcKey), cid: srcCAR.cid }, s3Object(carparkBucket, carparkKey), s3Object(satnavBucket, satnavKey), s3Store(dudewhereBucket)] as const
+
+  const res0 = await copy(...args)
+  expect(res0.statusCode).toBe(200)
+
+  // simulate a previous failed run that left only the CAR
+  await s3.client.send(new DeleteObjectCommand({ Bucket: satnavBucket, Key: satnavKey }))
+  await s3.client.send(new DeleteObjectCommand({ Bucket: dudewhereBucket, Key: dudewhereKey }))
+
+  const res1 = await copy(...args)
+  expect(res1.statusCode).toBe(200)
+  expect(JSON.parse(res1.body)).toEqual({ ok: true, car: 'skipped' })
+  await expect(keyExists(s3.client, satnavBucket, satnavKey)).resolves.toBe(false)
+
+  const res2 = await copy(...args, { repair: true })
+  expect(res2.statusCode).toBe(200)
+  expect(JSON.parse(res2.body)).toEqual({ ok: true, car: 'skipped', index: 'created', link: 'created', roots: [{ '/': srcCAR.root.toString() }] })
+
+  await expect(keyExists(s3.client, satnavBucket, satnavKey)).resolves.toBe(true)
+  await expect(keyExists(s3.client, dudewhereBucket, dudewhereKey)).resolves.toBe(true)
+
+  const res3 = await copy(...args, { repair: true })
+  expect(JSON.parse(res3.body)).toEqual({ ok: true, car: 'skipped', index: 'skipped', link: 'skipped', roots: [{ '/': srcCAR.root.toString() }] })
+})
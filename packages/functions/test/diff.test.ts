@@ -0,0 +1,95 @@
+import { expect, test, beforeEach, afterEach } from 'vitest'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { createSorter, diffSorted, SortedEntry } from '../src/lib/diff'
+
+let dir: string
+
+beforeEach(async () => {
+  dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'diff-'))
+})
+
+afterEach(async () => {
+  await fs.promises.rm(dir, { recursive: true, force: true })
+})
+
+const collect = async <T>(iterable: AsyncIterable<T>) => {
+  const items: T[] = []
+  for await (const item of iterable) items.push(item)
+  return items
+}
+
+async function * iterate<T> (items: T[]) {
+  yield * items
+}
+
+const entries = (keys: string[]): Array<SortedEntry<string>> => keys.map(key => ({ key, value: `item ${key}` }))
+
+test('sorts in memory when there are fewer values than a run', async () => {
+  const sorter = createSorter<number>(dir)
+  for (const [i, key] of ['c', 'a', 'b'].entries()) await sorter.add(key, i)
+  expect(await collect(sorter.sorted())).toEqual([{ key: 'a', value: 1 }, { key: 'b', value: 2 }, { key: 'c', value: 0 }])
+  expect(await fs.promises.readdir(dir)).toEqual(['0.ndjson'])
+})
+
+test('merges runs that cross the run size', async () => {
+  const keys = Array.from({ length: 25 }, (_, i) => `key/${String((i * 7) % 25).padStart(2, '0')}`)
+  const sorter = createSorter<{ n: number }>(dir, { runSize: 10 })
+  for (const [n, key] of keys.entries()) await sorter.add(key, { n })
+  // two full runs and a partial one
+  expect(await fs.promises.readdir(dir)).toHaveLength(2)
+
+  const sorted = await collect(sorter.sorted())
+  expect(await fs.promises.readdir(dir)).toHaveLength(3)
+  expect(sorted.map(e => e.key)).toEqual([...keys].sort())
+  for (const { key, value } of sorted) expect(keys[value.n]).toBe(key)
+})
+
+test('keeps values with the same key in different runs', async () => {
+  const sorter = createSorter<string>(dir, { runSize: 2 })
+  for (const [key, value] of [['b', '1'], ['a', '2'], ['b', '3'], ['c', '4'], ['a', '5']]) await sorter.add(key, value)
+  const sorted = await collect(sorter.sorted())
+  expect(sorted.map(e => e.key)).toEqual(['a', 'a', 'b', 'b', 'c'])
+  expect(sorted.map(e => e.value).sort()).toEqual(['1', '2', '3', '4', '5'])
+})
+
+test('encodes runs with a codec', async () => {
+  const codec = {
+    encode: ({ key, value }: SortedEntry<bigint>) => JSON.stringify({ key, value: value.toString() }),
+    decode: (line: string) => {
+      const { key, value } = JSON.parse(line)
+      return { key, value: BigInt(value) }
+    }
+  }
+  const sorter = createSorter(dir, { runSize: 1, codec })
+  await sorter.add('b', 2n ** 64n)
+  await sorter.add('a', 1n)
+  expect(await collect(sorter.sorted())).toEqual([{ key: 'a', value: 1n }, { key: 'b', value: 2n ** 64n }])
+})
+
+test('reports missing and orphaned keys', async () => {
+  const results = await collect(diffSorted(iterate(entries(['a', 'c', 'e'])), iterate(['b', 'c', 'd'])))
+  expect(results).toEqual([{ missing: 'item a' }, { orphan: 'b' }, { orphan: 'd' }, { missing: 'item e' }])
+})
+
+test('matches a listed key to every item that expects it', async () => {
+  const expected = [...entries(['a', 'a', 'b', 'b', 'b']), { key: 'c', value: 'first c' }, { key: 'c', value: 'second c' }]
+  const results = await collect(diffSorted(iterate(expected), iterate(['a', 'b'])))
+  // every item that expects an unlisted key is missing
+  expect(results).toEqual([{ missing: 'first c' }, { missing: 'second c' }])
+})
+
+test('reports orphans after the last expected key', async () => {
+  const results = await collect(diffSorted(iterate(entries(['a', 'b'])), iterate(['a', 'b', 'c', 'd'])))
+  expect(results).toEqual([{ orphan: 'c' }, { orphan: 'd' }])
+  expect(await collect(diffSorted(iterate(entries([])), iterate(['a'])))).toEqual([{ orphan: 'a' }])
+  expect(await collect(diffSorted(iterate(entries(['a'])), iterate([])))).toEqual([{ missing: 'item a' }])
+})
+
+test('diffs sorted runs with a bucket listing', async () => {
+  const sorter = createSorter<string>(dir, { runSize: 3 })
+  for (const key of ['f', 'b', 'd', 'b', 'a', 'h', 'd']) await sorter.add(key, `item ${key}`)
+  const results = await collect(diffSorted(sorter.sorted(), iterate(['b', 'c', 'd', 'f', 'i'])))
+  expect(results).toEqual([{ missing: 'item a' }, { orphan: 'c' }, { missing: 'item h' }, { orphan: 'i' }])
+})
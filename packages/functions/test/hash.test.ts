@@ -0,0 +1,62 @@
+import { expect, test } from 'vitest'
+import fs from 'node:fs'
+import { Readable } from 'node:stream'
+import * as Link from 'multiformats/link'
+import * as raw from 'multiformats/codecs/raw'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { hashObject } from '../src/hash'
+import { generateTestCAR } from './helpers/car'
+
+/** A stream of `size` zero bytes, in chunks of at most `chunkSize`. */
+const zeroStream = (size: number, chunkSize = 1024 * 1024) => {
+  const chunk = new Uint8Array(chunkSize)
+  let remaining = size
+  return new ReadableStream<Uint8Array>({
+    pull (controller) {
+      if (!remaining) return controller.close()
+      const n = Math.min(chunkSize, remaining)
+      controller.enqueue(chunk.subarray(0, n))
+      remaining -= n
+    }
+  })
+}
+
+test('computes the piece CID of a known vector', async () => {
+  const { digest, piece } = await hashObject(zeroStream(65), { piece: true })
+  expect(digest.bytes).toEqual((await sha256.digest(new Uint8Array(65))).bytes)
+  // 65 bytes pad to a 128 byte piece, whose v1 piece CID (CommP) is
+  // baga6ea4seaqdomn3tgwgrh3g532zopskstnbrd2n3sxfqbze7rxt7vqn7veigmy
+  expect(piece?.toString()).toBe('bafkzcibchybdomn3tgwgrh3g532zopskstnbrd2n3sxfqbze7rxt7vqn7veigmy')
+})
+
+test('hashes and validates a CAR in one pass', async () => {
+  const car = await generateTestCAR(1024 * 1024)
+  try {
+    const body = Readable.toWeb(fs.createReadStream(car.path)) as ReadableStream<Uint8Array>
+    const { digest, validation } = await hashObject(body, { validate: true })
+    expect(digest.bytes).toEqual(car.cid.multihash.bytes)
+    expect(validation).toMatchObject({ valid: true, roots: [car.root], unverifiedBlocks: 0 })
+  } finally {
+    await fs.promises.rm(car.path, { force: true })
+  }
+})
+
+test('hashes the whole object when validation stops early', async () => {
+  const size = 1024 * 1024 * 4
+  // a zero length CAR header cannot be decoded
+  const { digest, validation } = await hashObject(zeroStream(size, 64 * 1024), { validate: true })
+  expect(validation).toMatchObject({ valid: false, blocks: 0, invalidOffset: 0 })
+  expect(digest.bytes).toEqual((await sha256.digest(new Uint8Array(size))).bytes)
+})
+
+test('only computes the piece CID when asked', async () => {
+  const size = 1024 * 1024 * 256
+  const start = performance.now()
+  const { digest, piece } = await hashObject(zeroStream(size))
+  const ms = performance.now() - start
+
+  expect(piece).toBeUndefined()
+  expect(Link.create(raw.code, digest).toString()).toBe('bafkreifg24vmo2ipko7gvzdlvccqnpmxgavasp3rbbdsxwppyphp3ideqq')
+  // the piece hasher manages a few MB/s, which would take over a minute
+  expect(ms).toBeLessThan(20_000)
+}, 30_000)
@@ -26,6 +26,24 @@ export const generateTestCAR = async (targetSize: number) => {
   return { cid, root: car.root, size, path: carPath }
 }
 
+/** Encode a CAR of random raw blocks of the given sizes, rooted at the first. */
+export const encodeTestCAR = async (blockSizes: number[]) => {
+  const blocks = await Promise.all(blockSizes.map(async size => {
+    const bytes = crypto.randomBytes(size)
+    return { bytes, cid: Link.create(raw.code, await sha256.digest(bytes)) }
+  }))
+  const chunks: Uint8Array[] = []
+  await new ReadableStream({
+    start (controller) {
+      for (const block of blocks) controller.enqueue(block)
+      controller.close()
+    }
+  })
+    .pipeThrough(new CARWriterStream([blocks[0].cid]))
+    .pipeTo(new WritableStream({ write: chunk => { chunks.push(chunk) } }))
+  return { root: blocks[0].cid, bytes: new Uint8Array(Buffer.concat(chunks)) }
+}
+
 const randomBlock = async () => {
   const bytes = crypto.randomBytes(randomInt(1, 1024 * 1024 * 2))
   const cid = Link.create(raw.code, await sha256.digest(bytes))
@@ -0,0 +1,36 @@
+import { Job, JobQueue, JobStore } from '../../src/lib/jobs'
+
+/** An in-memory stand-in for the DynamoDB job table. */
+export const createMemoryJobStore = (): JobStore & { jobs: Map<string, Job> } => {
+  const jobs = new Map<string, Job>()
+  return {
+    jobs,
+    async put (job) {
+      jobs.set(job.id, structuredClone(job))
+    },
+    async get (id) {
+      const job = jobs.get(id)
+      return job && structuredClone(job)
+    },
+    async update (id, changes) {
+      const job = jobs.get(id)
+      if (!job) throw new Error(`job not found: ${id}`)
+      const updated: Record<string, unknown> = { ...job, ...changes, updated: new Date().toISOString() }
+      for (const [k, v] of Object.entries(updated)) {
+        if (v === undefined) delete updated[k]
+      }
+      jobs.set(id, updated as unknown as Job)
+    }
+  }
+}
+
+/** An in-memory stand-in for the SQS job queue. */
+export const createMemoryJobQueue = (): JobQueue & { messages: string[] } => {
+  const messages: string[] = []
+  return {
+    messages,
+    async send (id) {
+      messages.push(JSON.stringify({ id }))
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { expect, test } from 'vitest'
+import * as Link from 'multiformats/link'
+import { base58btc } from 'multiformats/bases/base58'
+import { defaultKeyLayout, keyLayoutFromEnv } from '../src/lib/keys'
+
+const shard = Link.parse('bagbaieraaosiqlj4gia2lx35dl7ofqynk7xs47aijrnyrfwny6nea4i6srua')
+const root = Link.parse('bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi')
+
+test('default layout', () => {
+  expect(defaultKeyLayout.carpark(shard)).toBe(`${shard}/${shard}.car`)
+  expect(defaultKeyLayout.satnav(shard)).toBe(`${shard}/${shard}.car.idx`)
+  expect(defaultKeyLayout.index(shard, 'multihash-index-sorted')).toBe(`${shard}/${shard}.car.idx`)
+  expect(defaultKeyLayout.index(shard, 'index-sorted')).toBe(`${shard}/${shard}.car.idx.sorted`)
+  expect(defaultKeyLayout.index(shard, 'sharded-dag-index')).toBe(`${shard}/${shard}.car.idx.dag.car`)
+  expect(defaultKeyLayout.dudewhere(root, shard)).toBe(`${root}/${shard}`)
+  const blob = Link.create(0x55, shard.multihash)
+  const multihash = base58btc.encode(blob.multihash.bytes)
+  expect(defaultKeyLayout.blob(blob)).toBe(`${multihash}/${multihash}.blob`)
+  expect(keyLayoutFromEnv({ BLOB_KEY_TEMPLATE: 'blobs/{cid}' }).blob(blob)).toBe(`blobs/${blob}`)
+})
+
+test('layout from templates', () => {
+  const keys = keyLayoutFromEnv({
+    CARPARK_KEY_TEMPLATE: '{multihash}/{multihash}.blob',
+    DUDEWHERE_KEY_TEMPLATE: 'links/{root}/{shard}'
+  })
+  const multihash = base58btc.encode(shard.multihash.bytes)
+  expect(keys.carpark(shard)).toBe(`${multihash}/${multihash}.blob`)
+  expect(keys.satnav(shard)).toBe(`${shard}/${shard}.car.idx`)
+  expect(keys.dudewhere(root, shard)).toBe(`links/${root}/${shard}`)
+})
+
+test('rejects invalid templates', () => {
+  expect(() => keyLayoutFromEnv({ CARPARK_KEY_TEMPLATE: '{root}.car' })).toThrow(/unknown placeholder \{root\}/)
+  expect(() => keyLayoutFromEnv({ SATNAV_KEY_TEMPLATE: 'index.idx' })).toThrow(/missing \{shard\} or \{multihash\}/)
+  expect(() => keyLayoutFromEnv({ DUDEWHERE_KEY_TEMPLATE: '{shard}' })).toThrow(/missing \{root\}/)
+  expect(() => keyLayoutFromEnv({ BLOB_KEY_TEMPLATE: '{shard}.blob' })).toThrow(/unknown placeholder \{shard\}/)
+})
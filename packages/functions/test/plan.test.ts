@@ -0,0 +1,17 @@
+import { expect, test } from 'vitest'
+import { estimateGBSeconds, planCopy, MAX_PUT_SIZE } from '../src/lib/plan'
+
+test('plans a copy as the copy lambda makes it', () => {
+  expect(planCopy(1024, true)).toBe('skip')
+  expect(planCopy(MAX_PUT_SIZE * 2, true)).toBe('skip')
+  expect(planCopy(MAX_PUT_SIZE - 1, false)).toBe('put')
+  expect(planCopy(MAX_PUT_SIZE, false)).toBe('multipart')
+  expect(planCopy(1024, false, { maxPutSize: 1024 })).toBe('multipart')
+})
+
+test('estimates GB-seconds from the lambda memory and throughput', () => {
+  const size = 1024 * 1024 * 100
+  expect(estimateGBSeconds(size, 'skip')).toBe(0)
+  expect(estimateGBSeconds(size, 'put')).toBe(2)
+  expect(estimateGBSeconds(size, 'multipart', { memorySize: 2048, throughput: size })).toBe(2)
+})
@@ -0,0 +1,66 @@
+import { expect, test, beforeEach, afterEach } from 'vitest'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { Readable } from 'node:stream'
+import { CARReaderStream } from 'carstream'
+import { equals } from 'multiformats/bytes'
+import { generateTestCAR } from './helpers/car'
+import { splitCAR, SplitShard } from '../src/lib/reshard'
+import { createFSStore, Store } from '../src/lib/store'
+
+let root: string
+let store: Store
+const paths: string[] = []
+
+beforeEach(async () => {
+  root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'reshard-'))
+  store = createFSStore(root)
+})
+
+afterEach(async () => {
+  await fs.promises.rm(root, { recursive: true, force: true })
+  for (const p of paths.splice(0)) await fs.promises.rm(p, { force: true })
+})
+
+const readCAR = async (body: ReadableStream<Uint8Array>) => {
+  const reader = new CARReaderStream()
+  const blocks: string[] = []
+  await body.pipeThrough(reader).pipeTo(new WritableStream({ write: block => { blocks.push(block.cid.toString()) } }))
+  return { roots: (await reader.getHeader()).roots.map(String), blocks }
+}
+
+const carStream = (p: string) => Readable.toWeb(fs.createReadStream(p)) as ReadableStream<Uint8Array>
+
+test('splits a CAR into CARs under the max shard size', async () => {
+  const car = await generateTestCAR(1024 * 1024 * 8)
+  paths.push(car.path)
+  const maxShardSize = 1024 * 1024 * 3
+
+  const shards: SplitShard[] = []
+  const blocks: string[] = []
+  const result = await splitCAR(carStream(car.path), store, {
+    maxShardSize,
+    onShard: async shard => {
+      shards.push(shard)
+      const res = await store.get(shard.key)
+      expect(res?.size).toBe(shard.size)
+      const { roots, blocks: shardBlocks } = await readCAR(res!.body)
+      expect(roots).toEqual([car.root.toString()])
+      blocks.push(...shardBlocks)
+    }
+  })
+
+  expect(equals(result.digest, car.cid.multihash.digest)).toBe(true)
+  expect(result.roots.map(String)).toEqual([car.root.toString()])
+  expect(result.shards).toEqual(shards)
+  expect(shards.length).toBeGreaterThan(2)
+  expect(shards.every(s => s.size <= maxShardSize)).toBe(true)
+  expect(blocks).toEqual((await readCAR(carStream(car.path))).blocks)
+})
+
+test('fails if a block does not fit in a shard', async () => {
+  const car = await generateTestCAR(1024 * 1024)
+  paths.push(car.path)
+  await expect(splitCAR(carStream(car.path), store, { maxShardSize: 1024, onShard: async () => {} })).rejects.toThrow(/does not fit/)
+})
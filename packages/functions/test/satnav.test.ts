@@ -0,0 +1,75 @@
+import { expect, test } from 'vitest'
+import crypto from 'node:crypto'
+import * as Link from 'multiformats/link'
+import { sha256, sha512 } from 'multiformats/hashes/sha2'
+import { identity } from 'multiformats/hashes/identity'
+import * as raw from 'multiformats/codecs/raw'
+import { MultihashIndexSortedWriter } from 'cardex/multihash-index-sorted'
+import { IndexSortedWriter } from 'cardex/index-sorted'
+import { createIndexWriter } from '../src/lib/satnav'
+
+const readAll = async (body: ReadableStream<Uint8Array>) => new Uint8Array(await new Response(body).arrayBuffer())
+
+/** Encode an index with the cardex writer. */
+const cardexIndex = async (entries: Array<[Link.UnknownLink, number]>, format: typeof MultihashIndexSortedWriter | typeof IndexSortedWriter = MultihashIndexSortedWriter) => {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>()
+  const writer = format.createWriter({ writer: writable.getWriter() })
+  for (const [cid, offset] of entries) writer.add(cid, offset)
+  const [bytes] = await Promise.all([readAll(readable), writer.close()])
+  return bytes
+}
+
+const randomEntries = async (count: number) => {
+  const entries: Array<[Link.UnknownLink, number]> = []
+  for (let i = 0; i < count; i++) {
+    const bytes = crypto.randomBytes(16)
+    const hasher = [sha256, sha512, identity][i % 3]
+    entries.push([Link.create(raw.code, await hasher.digest(bytes)), i * 100])
+  }
+  // a duplicate block
+  entries.push([entries[0][0], count * 100])
+  return entries
+}
+
+test('encodes the same index as cardex', async () => {
+  const entries = await randomEntries(1000)
+  const expected = await cardexIndex(entries)
+
+  for (const runSize of [7, 100_000]) {
+    const index = createIndexWriter({ runSize })
+    try {
+      for (const [cid, offset] of entries) await index.add(cid, offset)
+      expect(index.size()).toBe(expected.length)
+      expect(await readAll(index.encode())).toEqual(expected)
+    } finally {
+      await index.close()
+    }
+  }
+})
+
+test('encodes the same IndexSorted index as cardex', async () => {
+  const entries = await randomEntries(1000)
+  // digests with the width of sha256 digests, but another code
+  for (let i = 0; i < 100; i++) {
+    entries.push([Link.create(raw.code, await identity.digest(crypto.randomBytes(32))), i * 100 + 50])
+  }
+  const expected = await cardexIndex(entries, IndexSortedWriter)
+
+  for (const runSize of [7, 100_000]) {
+    const index = createIndexWriter({ runSize })
+    try {
+      for (const [cid, offset] of entries) await index.add(cid, offset)
+      expect(index.size('index-sorted')).toBe(expected.length)
+      expect(await readAll(index.encode('index-sorted'))).toEqual(expected)
+      // the index can still be encoded in the other format
+      expect(await readAll(index.encode())).toEqual(await cardexIndex(entries))
+    } finally {
+      await index.close()
+    }
+  }
+})
+
+test('encodes an empty index', async () => {
+  const index = createIndexWriter()
+  expect(await readAll(index.encode())).toEqual(await cardexIndex([]))
+})
@@ -0,0 +1,144 @@
+import { expect, test, beforeEach, afterEach } from 'vitest'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import http from 'node:http'
+import crypto from 'node:crypto'
+import { AddressInfo } from 'node:net'
+import { createFSStore, createHTTPStore, createSourceStore } from '../src/lib/store'
+
+let root: string
+
+beforeEach(async () => {
+  root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'store-'))
+})
+
+afterEach(async () => {
+  await fs.promises.rm(root, { recursive: true, force: true })
+})
+
+const toStream = (bytes: Uint8Array) => new ReadableStream<Uint8Array>({
+  start (controller) {
+    controller.enqueue(bytes)
+    controller.close()
+  }
+})
+
+const readAll = async (body: ReadableStream<Uint8Array>) => new Uint8Array(await new Response(body).arrayBuffer())
+
+test('filesystem store puts, gets and deletes objects', async () => {
+  const store = createFSStore(root)
+  const bytes = new Uint8Array(crypto.randomBytes(1000))
+  const checksumSHA256 = crypto.createHash('sha256').update(bytes).digest('base64')
+
+  await store.put('a/b.car', toStream(bytes), { size: bytes.length, checksumSHA256, metadata: { piece: 'test' } })
+  expect(await store.head('a/b.car')).toEqual({ size: 1000, checksumSHA256, metadata: { piece: 'test' } })
+
+  const all = await store.get('a/b.car')
+  expect(all?.size).toBe(1000)
+  expect(await readAll(all!.body)).toEqual(bytes)
+
+  const range = await store.get('a/b.car', { range: { start: 10, end: 20 } })
+  expect(range?.size).toBe(10)
+  expect(await readAll(range!.body)).toEqual(bytes.subarray(10, 20))
+
+  await store.delete('a/b.car')
+  expect(await store.head('a/b.car')).toBeUndefined()
+  expect(await store.get('a/b.car')).toBeUndefined()
+})
+
+test('filesystem store rejects a put that does not match its checksum', async () => {
+  const store = createFSStore(root)
+  const checksumSHA256 = crypto.createHash('sha256').update('other').digest('base64')
+  await expect(store.put('x.car', new Uint8Array([1, 2, 3]), { checksumSHA256 })).rejects.toThrow(/checksum/)
+  expect(await store.head('x.car')).toBeUndefined()
+})
+
+test('filesystem store rejects keys outside the root', async () => {
+  const store = createFSStore(root)
+  await expect(store.put('../x.car', new Uint8Array([1]))).rejects.toThrow(/invalid key/)
+})
+
+test('filesystem store multipart upload', async () => {
+  const store = createFSStore(root)
+  const multipart = store.multipart!
+  const chunks = [crypto.randomBytes(100), crypto.randomBytes(50)].map(b => new Uint8Array(b))
+
+  const uploadID = await multipart.create('big.car', { metadata: { piece: 'test' } })
+  expect(await multipart.listUploads('big.car')).toEqual([uploadID])
+
+  const parts = []
+  for (const [i, chunk] of chunks.entries()) {
+    parts.push(await multipart.uploadPart('big.car', uploadID, i + 1, chunk))
+  }
+  expect(await multipart.listParts('big.car', uploadID)).toEqual(parts.map(p => ({ partNumber: p.partNumber, etag: p.etag })))
+
+  await multipart.complete('big.car', uploadID, parts)
+  expect(await multipart.listUploads('big.car')).toEqual([])
+  expect(await store.head('big.car')).toEqual({ size: 150, metadata: { piece: 'test' } })
+  expect(await readAll((await store.get('big.car'))!.body)).toEqual(new Uint8Array(Buffer.concat(chunks)))
+
+  const abortedID = await multipart.create('big.car')
+  await multipart.abort('big.car', abortedID)
+  expect(await multipart.listUploads('big.car')).toEqual([])
+})
+
+test('HTTP store reads objects and ranges', async () => {
+  const bytes = crypto.randomBytes(1000)
+  const server = http.createServer((req, res) => {
+    if (req.url !== '/base/a/b.car') return res.writeHead(404).end()
+    const range = req.headers.range?.match(/^bytes=(\d+)-(\d+)$/)
+    if (range) {
+      const [start, end] = [parseInt(range[1]), parseInt(range[2]) + 1]
+      return res.writeHead(206, { 'Content-Length': end - start }).end(bytes.subarray(start, end))
+    }
+    res.writeHead(200, { 'Content-Length': bytes.length }).end(req.method === 'HEAD' ? undefined : bytes)
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+
+  try {
+    const { port } = server.address() as AddressInfo
+    const store = createHTTPStore(`http://127.0.0.1:${port}/base`)
+
+    expect(await store.head('a/b.car')).toEqual({ size: 1000 })
+    expect(await store.head('missing.car')).toBeUndefined()
+
+    const all = await store.get('a/b.car')
+    expect(await readAll(all!.body)).toEqual(new Uint8Array(bytes))
+
+    const range = await store.get('a/b.car', { range: { start: 100, end: 200 } })
+    expect(range?.size).toBe(100)
+    expect(await readAll(range!.body)).toEqual(new Uint8Array(bytes.subarray(100, 200)))
+  } finally {
+    server.close()
+  }
+})
+
+test('HTTP store fails for an object without a Content-Length', async () => {
+  const server = http.createServer((req, res) => {
+    // a chunked response has no Content-Length
+    res.writeHead(200)
+    if (req.method !== 'HEAD') res.write(crypto.randomBytes(1000))
+    res.end()
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+
+  try {
+    const { port } = server.address() as AddressInfo
+    const store = createHTTPStore(`http://127.0.0.1:${port}`)
+    await expect(store.head('a.car')).rejects.toThrow(/missing Content-Length/)
+    await expect(store.get('a.car')).rejects.toThrow(/missing Content-Length/)
+  } finally {
+    server.close()
+  }
+})
+
+test('selects the source store from env', async () => {
+  await createFSStore(path.join(root, 'bucket')).put('a.car', new Uint8Array([1, 2, 3]))
+  const store = createSourceStore('us-west-2', 'bucket', { SOURCE_DIR: root })
+  expect(await store.head('a.car')).toMatchObject({ size: 3 })
+
+  expect(createSourceStore('us-west-2', 'bucket', { SOURCE_URL: 'http://127.0.0.1:1234/base' }).name).toBe('http://127.0.0.1:1234/base/bucket')
+  expect(createSourceStore('us-west-2', 'bucket', {}).name).toBe('us-west-2/bucket')
+  expect(() => createSourceStore('us-west-2', 'bucket', { SOURCE_DIR: root, SOURCE_URL: 'http://127.0.0.1:1234' })).toThrow()
+})
@@ -0,0 +1,49 @@
+import { expect, test } from 'vitest'
+import { sourcePolicyFromEnv, validateKind, validateObjectSize, validateSource } from '../src/lib/validate'
+
+const params = (init: Record<string, string>) => new URLSearchParams(init)
+const errorCode = (res: { error?: { body: string } }) => res.error && JSON.parse(res.error.body).code
+
+test('default policy', () => {
+  const policy = sourcePolicyFromEnv({})
+  const res = validateSource(params({ region: 'us-west-2', bucket: 'dotstorage-prod-0', key: 'complete/bafy.car' }), policy)
+  expect(res.ok).toEqual({ region: 'us-west-2', bucket: 'dotstorage-prod-0', key: 'complete/bafy.car' })
+
+  expect(errorCode(validateSource(params({ region: 'eu-west-1', bucket: 'dotstorage-prod-0', key: 'a.car' }), policy))).toBe('INVALID_REGION')
+  expect(errorCode(validateSource(params({ region: 'us-west-2', bucket: 'other', key: 'a.car' }), policy))).toBe('INVALID_BUCKET')
+  expect(errorCode(validateSource(params({ region: 'us-west-2', bucket: 'dotstorage-prod-0', key: 'a.txt' }), policy))).toBe('INVALID_KEY')
+  expect(errorCode(validateSource(params({ region: 'us-west-2', key: 'a.car' }), policy))).toBe('MISSING_PARAMETER')
+})
+
+test('configured policy', () => {
+  const policy = sourcePolicyFromEnv({
+    SOURCE_REGIONS: 'eu-central-1',
+    SOURCE_BUCKETS: 'exact-bucket, team-*-cars',
+    SOURCE_KEY_PREFIXES: 'raw/,complete/',
+    SOURCE_KEY_SUFFIXES: '',
+    SOURCE_MAX_OBJECT_SIZE: '1000'
+  })
+
+  expect(validateSource(params({ region: 'eu-central-1', bucket: 'exact-bucket', key: 'raw/blob' }), policy).ok).toBeDefined()
+  expect(validateSource(params({ region: 'eu-central-1', bucket: 'team-a-cars', key: 'complete/x.car' }), policy).ok).toBeDefined()
+  expect(errorCode(validateSource(params({ region: 'eu-central-1', bucket: 'team-a-cars-old', key: 'raw/blob' }), policy))).toBe('INVALID_BUCKET')
+  expect(errorCode(validateSource(params({ region: 'eu-central-1', bucket: 'exact-bucket', key: 'other/blob' }), policy))).toBe('INVALID_KEY')
+
+  expect(validateObjectSize(1000, policy).ok).toBe(1000)
+  const tooLarge = validateObjectSize(1001, policy)
+  expect(tooLarge.error?.statusCode).toBe(413)
+  expect(errorCode(tooLarge)).toBe('OBJECT_TOO_LARGE')
+})
+
+test('blob policy', () => {
+  const policy = sourcePolicyFromEnv({ SOURCE_BLOB_KEY_SUFFIXES: '.bin' })
+  const source = { region: 'us-west-2', bucket: 'dotstorage-prod-0' }
+
+  expect(validateSource(params({ ...source, key: 'raw/a.bin' }), policy, 'blob').ok).toBeDefined()
+  expect(errorCode(validateSource(params({ ...source, key: 'raw/a.car' }), policy, 'blob'))).toBe('INVALID_KEY')
+  expect(errorCode(validateSource(params({ ...source, key: 'raw/a.bin' }), policy))).toBe('INVALID_KEY')
+
+  expect(validateKind(params({})).ok).toBe('car')
+  expect(validateKind(params({ kind: 'blob' })).ok).toBe('blob')
+  expect(errorCode(validateKind(params({ kind: 'tar' })))).toBe('INVALID_PARAMETER')
+})
@@ -0,0 +1,113 @@
+import { expect, test, beforeEach, afterEach } from 'vitest'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { generateTestCAR } from './helpers/car'
+import { copy } from '../src/copy'
+import { decodeDAGIndex } from '../src/lib/dag-index'
+import { verify } from '../src/verify'
+import { createFSStore, Store } from '../src/lib/store'
+
+let root: string
+let src: Store
+let carpark: Store
+let satnav: Store
+let dudewhere: Store
+
+beforeEach(async () => {
+  root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'verify-'))
+  src = createFSStore(path.join(root, 'src'))
+  carpark = createFSStore(path.join(root, 'carpark'))
+  satnav = createFSStore(path.join(root, 'satnav'))
+  dudewhere = createFSStore(path.join(root, 'dudewhere'))
+})
+
+afterEach(async () => {
+  await fs.promises.rm(root, { recursive: true, force: true })
+})
+
+const copyTestCAR = async (size: number, options?: Parameters<typeof copy>[4]) => {
+  const car = await generateTestCAR(size)
+  const key = `complete/${car.root}.car`
+  await fs.promises.mkdir(path.join(root, 'src', 'complete'), { recursive: true })
+  await fs.promises.rename(car.path, path.join(root, 'src', key))
+
+  const carObj = { store: carpark, key: `${car.cid}/${car.cid}.car` }
+  const indexObj = { store: satnav, key: `${car.cid}/${car.cid}.car.idx` }
+  const res = await copy({ store: src, key, cid: car.cid }, carObj, indexObj, dudewhere, options)
+  expect(res.statusCode).toBe(200)
+  return { ...car, carObj, indexObj }
+}
+
+test('verifies a copied CAR', async () => {
+  const car = await copyTestCAR(1024 * 1024)
+  const res = await verify(car.cid, car.carObj, car.indexObj, dudewhere)
+  expect(res).toMatchObject({ valid: true, car: { ok: true, size: car.size }, index: { ok: true }, link: { ok: true, roots: [car.root] } })
+  expect(res.index.entries).toBe(res.car.blocks)
+})
+
+test('reports each failed check separately', async () => {
+  const car = await copyTestCAR(1024 * 1024)
+  const other = await copyTestCAR(1024 * 1024)
+
+  // swap in the index of another CAR, and remove the link
+  await satnav.put(car.indexObj.key, new Uint8Array(await fs.promises.readFile(path.join(root, 'satnav', other.indexObj.key))))
+  await dudewhere.delete(`${car.root}/${car.cid}`)
+
+  const res = await verify(car.cid, car.carObj, car.indexObj, dudewhere)
+  expect(res.valid).toBe(false)
+  expect(res.car.ok).toBe(true)
+  expect(res.index).toMatchObject({ ok: false, error: expect.stringMatching(/offset mismatch/) })
+  expect(res.link).toMatchObject({ ok: false, error: expect.stringMatching(/missing link/) })
+})
+
+test('fails when the CAR does not match the shard CID', async () => {
+  const car = await copyTestCAR(1024 * 1024)
+  const other = await copyTestCAR(1024 * 1024)
+
+  const res = await verify(car.cid, other.carObj, car.indexObj, dudewhere)
+  expect(res.valid).toBe(false)
+  expect(res.car).toMatchObject({ ok: false, error: 'hash mismatch' })
+})
+
+test('fails when the CAR does not exist', async () => {
+  const car = await copyTestCAR(1024 * 1024)
+  await carpark.delete(car.carObj.key)
+
+  const res = await verify(car.cid, car.carObj, car.indexObj, dudewhere, { roots: [car.root] })
+  expect(res).toMatchObject({ valid: false, car: { ok: false, error: 'not found' }, index: { ok: false }, link: { ok: true } })
+})
+
+test('verifies an index in each format', async () => {
+  const indexFormats = ['multihash-index-sorted', 'index-sorted', 'sharded-dag-index'] as const
+  const car = await copyTestCAR(1024 * 1024, { indexFormats: [...indexFormats] })
+  const other = await copyTestCAR(1024 * 1024, { indexFormats: [...indexFormats] })
+
+  const res = await verify(car.cid, car.carObj, car.indexObj, dudewhere, { indexFormats: [...indexFormats] })
+  expect(res.valid).toBe(true)
+  expect(res.index.formats).toEqual({
+    'multihash-index-sorted': { ok: true, entries: res.car.blocks },
+    'index-sorted': { ok: true, entries: res.car.blocks },
+    // the blob index also has the position of the shard
+    'sharded-dag-index': { ok: true, entries: (res.car.blocks ?? 0) + 1 }
+  })
+
+  const dagIndexKey = `${car.indexObj.key}.dag.car`
+  const dagIndex = await decodeDAGIndex((await satnav.get(dagIndexKey))!.body)
+  expect(dagIndex.content.toString()).toBe(car.root.toString())
+
+  // swap in the IndexSorted and sharded DAG indexes of another CAR
+  for (const suffix of ['.sorted', '.dag.car']) {
+    await satnav.put(`${car.indexObj.key}${suffix}`, new Uint8Array(await fs.promises.readFile(path.join(root, 'satnav', `${other.indexObj.key}${suffix}`))))
+  }
+  const invalid = await verify(car.cid, car.carObj, car.indexObj, dudewhere, { indexFormats: [...indexFormats] })
+  expect(invalid.index).toMatchObject({
+    ok: false,
+    error: expect.stringMatching(/^index-sorted: offset mismatch/),
+    formats: {
+      'multihash-index-sorted': { ok: true },
+      'index-sorted': { ok: false },
+      'sharded-dag-index': { ok: false, error: expect.stringMatching(/content mismatch/) }
+    }
+  })
+})
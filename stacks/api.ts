@@ -1,5 +1,10 @@
-import { StackContext, Function, Config } from 'sst/constructs'
+import { Duration } from 'aws-cdk-lib'
+import { StackContext, Function, Config, Queue, Table } from 'sst/constructs'
 import { mustGetEnv } from '../packages/functions/src/lib/util'
+import { SOURCE_POLICY_ENV_VARS } from '../packages/functions/src/lib/validate'
+import { KEY_TEMPLATE_ENV_VARS, keyLayoutFromEnv } from '../packages/functions/src/lib/keys'
+import { indexFormatsFromEnv } from '../packages/functions/src/lib/satnav'
+import { destinationNames, destinationVar, DEFAULT_DESTINATION, DESTINATION_ENV_VARS, DESTINATION_SECRETS } from '../packages/functions/src/lib/destinations'
 
 export function API ({ stack }: StackContext) {
   const DEST_ENDPOINT = mustGetEnv(process.env, 'DEST_ENDPOINT')
@@ -7,6 +12,27 @@ export function API ({ stack }: StackContext) {
   const CARPARK_BUCKET = mustGetEnv(process.env, 'CARPARK_BUCKET')
   const SATNAV_BUCKET = mustGetEnv(process.env, 'SATNAV_BUCKET')
   const DUDEWHERE_BUCKET = mustGetEnv(process.env, 'DUDEWHERE_BUCKET')
+  const PART_CONCURRENCY = process.env.PART_CONCURRENCY ?? '4'
+  const BATCH_CONCURRENCY = process.env.BATCH_CONCURRENCY ?? '10'
+  const MAX_BATCH_SIZE = process.env.MAX_BATCH_SIZE ?? '1000'
+  const JOB_MAX_ATTEMPTS = process.env.JOB_MAX_ATTEMPTS ?? '3'
+
+  // allowed source regions, buckets, keys and object size - defaults are
+  // defined in packages/functions/src/lib/validate.ts
+  const sourcePolicy: Record<string, string> = {}
+  for (const name of SOURCE_POLICY_ENV_VARS) {
+    const value = process.env[name]
+    if (value != null) sourcePolicy[name] = value
+  }
+
+  // destination key templates - defaults are defined in
+  // packages/functions/src/lib/keys.ts, and invalid templates fail the deploy
+  keyLayoutFromEnv(process.env)
+  const keyTemplates: Record<string, string> = {}
+  for (const name of KEY_TEMPLATE_ENV_VARS) {
+    const value = process.env[name]
+    if (value) keyTemplates[name] = value
+  }
 
   stack.setDefaultFunctionProps({
     memorySize: '1 GB',
@@ -15,9 +41,19 @@ export function API ({ stack }: StackContext) {
     timeout: '15 minutes'
   })
 
+  // formats the satnav index is written and verified in - the default is
+  // defined in packages/functions/src/lib/satnav.ts, and unknown formats fail
+  // the deploy
+  const INDEX_FORMATS = indexFormatsFromEnv(process.env).join(',')
+
+  // requests to the function URLs must be signed with this key
+  const requestSigningKey = new Config.Secret(stack, 'REQUEST_SIGNING_KEY')
+
   const hashFunction = new Function(stack, 'hash', {
     handler: 'packages/functions/src/hash.handler',
-    url: { cors: true, authorizer: 'none' }
+    url: { cors: true, authorizer: 'none' },
+    environment: sourcePolicy,
+    bind: [requestSigningKey]
   })
 
   hashFunction.attachPermissions(['s3:GetObject'])
@@ -25,23 +61,111 @@ export function API ({ stack }: StackContext) {
   const accessKeyID = new Config.Secret(stack, 'DEST_ACCESS_KEY_ID')
   const secretAccessKey = new Config.Secret(stack, 'DEST_SECRET_ACCESS_KEY')
 
+  // additional destinations that copies are replicated to, each configured
+  // with DEST_<NAME>_* env vars and its own credential secrets
+  const replicaEnvironment: Record<string, string> = {}
+  const replicaSecrets: Config.Secret[] = []
+  const replicas = destinationNames(process.env).filter(name => name !== DEFAULT_DESTINATION)
+  if (replicas.length) replicaEnvironment.DESTINATIONS = replicas.join(',')
+  for (const name of replicas) {
+    for (const v of DESTINATION_ENV_VARS) {
+      replicaEnvironment[destinationVar(name, v)] = mustGetEnv(process.env, destinationVar(name, v))
+    }
+    for (const secret of DESTINATION_SECRETS) {
+      replicaSecrets.push(new Config.Secret(stack, destinationVar(name, secret)))
+    }
+  }
+
+  // status of async copy jobs
+  const jobsTable = new Table(stack, 'copy-jobs', {
+    fields: { id: 'string' },
+    primaryIndex: { partitionKey: 'id' },
+    timeToLiveAttribute: 'expires'
+  })
+
+  // satnav indexes of large CARs are sorted in temporary files
+  const copyDiskSize = '10 GB'
+
+  const copyEnvironment = {
+    ...sourcePolicy,
+    DEST_ENDPOINT,
+    DEST_REGION,
+    CARPARK_BUCKET,
+    SATNAV_BUCKET,
+    DUDEWHERE_BUCKET,
+    ...replicaEnvironment,
+    ...keyTemplates,
+    INDEX_FORMATS,
+    PART_CONCURRENCY,
+    JOBS_TABLE: jobsTable.tableName
+  }
+
+  // jobs that failed `JOB_MAX_ATTEMPTS` times
+  const jobsDeadLetterQueue = new Queue(stack, 'copy-jobs-dlq')
+
+  const jobsQueue = new Queue(stack, 'copy-jobs', {
+    consumer: {
+      function: {
+        handler: 'packages/functions/src/copy.jobHandler',
+        diskSize: copyDiskSize,
+        environment: { ...copyEnvironment, JOB_MAX_ATTEMPTS },
+        bind: [accessKeyID, secretAccessKey, ...replicaSecrets],
+        permissions: ['s3:GetObject', jobsTable]
+      },
+      cdk: { eventSource: { batchSize: 1 } }
+    },
+    cdk: {
+      queue: {
+        // comfortably above the 15 minute function timeout, so that a message
+        // is not received again while its job is still running
+        visibilityTimeout: Duration.minutes(30),
+        deadLetterQueue: { queue: jobsDeadLetterQueue.cdk.queue, maxReceiveCount: parseInt(JOB_MAX_ATTEMPTS) }
+      }
+    }
+  })
+
+  // marks jobs failed, including those whose last attempt timed out
+  jobsDeadLetterQueue.addConsumer(stack, {
+    function: {
+      handler: 'packages/functions/src/copy.deadLetterHandler',
+      environment: { JOBS_TABLE: jobsTable.tableName },
+      permissions: [jobsTable]
+    }
+  })
+
   const copyFunction = new Function(stack, 'copy', {
     handler: 'packages/functions/src/copy.handler',
     url: { cors: true, authorizer: 'none' },
+    diskSize: copyDiskSize,
+    environment: {
+      ...copyEnvironment,
+      BATCH_CONCURRENCY,
+      MAX_BATCH_SIZE,
+      JOBS_QUEUE_URL: jobsQueue.queueUrl
+    },
+    bind: [accessKeyID, secretAccessKey, ...replicaSecrets, requestSigningKey]
+  })
+
+  copyFunction.attachPermissions(['s3:GetObject', jobsTable, jobsQueue])
+
+  const verifyFunction = new Function(stack, 'verify', {
+    handler: 'packages/functions/src/verify.handler',
+    url: { cors: true, authorizer: 'none' },
     environment: {
       DEST_ENDPOINT,
       DEST_REGION,
       CARPARK_BUCKET,
       SATNAV_BUCKET,
-      DUDEWHERE_BUCKET
+      DUDEWHERE_BUCKET,
+      ...keyTemplates,
+      INDEX_FORMATS
     },
-    bind: [accessKeyID, secretAccessKey]
+    bind: [accessKeyID, secretAccessKey, requestSigningKey]
   })
 
-  copyFunction.attachPermissions(['s3:GetObject'])
-
   stack.addOutputs({
     hashFunctionURL: hashFunction.url,
-    copyFunctionURL: copyFunction.url
+    copyFunctionURL: copyFunction.url,
+    verifyFunctionURL: verifyFunction.url
   })
 }